@@ -0,0 +1,76 @@
+import { NetworkId } from "./constant";
+import { getTokenDecimals, tokenAddress } from "./tokens";
+
+/* ------------------ UNITS ------------------ */
+
+/** Converts a decimal string ("2.5") to base units without floating point. */
+export function parseUnits(decimal: string, decimals: number): string {
+  const match = /^(\d*)(?:\.(\d*))?$/.exec(decimal.trim());
+  if (!match || (!match[1] && !match[2])) {
+    throw new Error(`"${decimal}" is not a decimal amount`);
+  }
+
+  const [, whole, fraction = ""] = match;
+  if (fraction.replace(/0+$/, "").length > decimals) {
+    throw new Error(`"${decimal}" has more than ${decimals} decimal places`);
+  }
+
+  const units = BigInt(`${whole || "0"}${fraction.padEnd(decimals, "0").slice(0, decimals)}`);
+  return units.toString();
+}
+
+/** Converts base units back to a decimal string, dropping trailing zeros. */
+export function formatUnits(amount: string | number | bigint, decimals: number): string {
+  const units = BigInt(amount);
+  const negative = units < BigInt(0);
+  const digits = (negative ? -units : units).toString().padStart(decimals + 1, "0");
+
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, "");
+  return `${negative ? "-" : ""}${whole}${fraction ? `.${fraction}` : ""}`;
+}
+
+/* ------------------ AMOUNTS ------------------ */
+
+/** "2.5 APT" (token symbol or address) or `{ token, decimal: "2.5" }`. */
+export type AmountInput = string | { token: string; decimal: string | number };
+
+export interface TokenAmount {
+  token: string;
+  decimals: number;
+  /** Human-readable amount, e.g. "2.5". */
+  decimal: string;
+  /** Exact amount in base units, as the Kana API expects it. */
+  amount: string;
+}
+
+function splitAmount(chain: NetworkId, input: AmountInput): { token: string; decimal: string } {
+  if (typeof input !== "string") {
+    const decimal = String(input.decimal);
+    if (/e/i.test(decimal)) {
+      throw new Error(`${input.decimal} is in exponent notation; pass the amount as a string`);
+    }
+    return { token: tokenAddress(chain, input.token), decimal };
+  }
+
+  const match = /^\s*(\S+)\s+(\S+)\s*$/.exec(input);
+  if (!match) throw new Error(`"${input}" is not of the form "<amount> <token>"`);
+
+  return { token: tokenAddress(chain, match[2]), decimal: match[1] };
+}
+
+export async function parseAmount(chain: NetworkId, input: AmountInput): Promise<TokenAmount> {
+  const { token, decimal } = splitAmount(chain, input);
+  const decimals = await getTokenDecimals(chain, token);
+  return { token, decimals, decimal, amount: parseUnits(decimal, decimals) };
+}
+
+/** Formats a base-unit amount from a quote; returns undefined when the quote omitted it. */
+export async function formatAmount(
+  chain: NetworkId,
+  token: string,
+  amount: string | number | bigint | undefined
+): Promise<string | undefined> {
+  if (amount === undefined) return undefined;
+  return formatUnits(amount, await getTokenDecimals(chain, token));
+}
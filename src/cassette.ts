@@ -0,0 +1,293 @@
+import fs from "fs";
+import path from "path";
+import {
+  AxiosError,
+  AxiosInstance,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+  getAdapter,
+} from "axios";
+import { getKanaConfig } from "./config";
+import { CassetteMissError } from "./errors";
+
+/* ------------------ TYPES ------------------ */
+
+export type CassetteMode = "record" | "replay";
+
+export interface RecordedRequest {
+  method: string;
+  /** Path and query with parameters sorted; the host is not part of the match. */
+  url: string;
+  body?: unknown;
+}
+
+export interface RecordedResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+export interface Interaction {
+  request: RecordedRequest;
+  response: RecordedResponse;
+}
+
+interface CassetteFile {
+  version: 1;
+  interactions: Interaction[];
+}
+
+/* ------------------ SCRUBBING ------------------ */
+
+const REDACTED = "<redacted>";
+
+const SECRET_KEY = /^(x-)?api[-_]?key$|authorization|secret|private[-_]?key|mnemonic|password/i;
+
+// Only headers the flows react to are kept; everything else may carry credentials.
+const KEPT_HEADERS = ["content-type", "retry-after"];
+
+function scrub(value: unknown, secrets: string[]): unknown {
+  if (typeof value === "string") {
+    return secrets.reduce((text, secret) => text.split(secret).join(REDACTED), value);
+  }
+  if (Array.isArray(value)) return value.map((item) => scrub(item, secrets));
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        SECRET_KEY.test(key) ? REDACTED : scrub(item, secrets),
+      ])
+    );
+  }
+  return value;
+}
+
+function normalizeUrl(url: string): string {
+  const parsed = new URL(url, "http://cassette.local");
+  const query = [...parsed.searchParams.entries()].sort(([a], [b]) => a.localeCompare(b));
+  const search = new URLSearchParams(query).toString();
+  return `${parsed.pathname}${search ? `?${search}` : ""}`;
+}
+
+function parseBody(body: unknown): unknown {
+  if (typeof body !== "string" || body === "") return body ?? undefined;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+/* ------------------ CASSETTE ------------------ */
+
+/**
+ * Fixture file of HTTP interactions. In record mode every exchange is appended
+ * and the file is rewritten; in replay mode each request is answered with the
+ * next unused recording that matches its method, URL and body, so a poller that
+ * saw "PENDING" twice before an attestation replays exactly that sequence.
+ */
+export class Cassette {
+  private interactions: Interaction[];
+  private readonly used = new Set<number>();
+  private readonly secrets: string[];
+
+  constructor(
+    readonly file: string,
+    readonly mode: CassetteMode,
+    secrets: (string | undefined)[] = []
+  ) {
+    this.secrets = secrets.filter((secret): secret is string => !!secret);
+    // A new recording replaces the old one rather than appending to it.
+    this.interactions = mode === "replay" ? this.read() : [];
+  }
+
+  private read(): Interaction[] {
+    if (!fs.existsSync(this.file)) {
+      throw new CassetteMissError(this.file, `no cassette file at ${this.file}`);
+    }
+    const parsed: CassetteFile = JSON.parse(fs.readFileSync(this.file, "utf8"));
+    return parsed.interactions ?? [];
+  }
+
+  private write() {
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    const file: CassetteFile = { version: 1, interactions: this.interactions };
+    fs.writeFileSync(this.file, `${JSON.stringify(file, null, 2)}\n`);
+  }
+
+  private normalize(request: RecordedRequest): RecordedRequest {
+    return {
+      method: request.method.toUpperCase(),
+      url: scrub(normalizeUrl(request.url), this.secrets) as string,
+      body: scrub(parseBody(request.body), this.secrets),
+    };
+  }
+
+  record(request: RecordedRequest, response: RecordedResponse) {
+    const headers = Object.fromEntries(
+      Object.entries(response.headers)
+        .map(([key, value]) => [key.toLowerCase(), String(value)])
+        .filter(([key]) => KEPT_HEADERS.includes(key))
+    );
+    this.interactions.push({
+      request: this.normalize(request),
+      response: {
+        status: response.status,
+        headers,
+        body: scrub(parseBody(response.body), this.secrets),
+      },
+    });
+    this.write();
+  }
+
+  replay(request: RecordedRequest): RecordedResponse {
+    const wanted = JSON.stringify(this.normalize(request));
+    const index = this.interactions.findIndex(
+      (interaction, i) => !this.used.has(i) && JSON.stringify(interaction.request) === wanted
+    );
+    if (index === -1) {
+      const { method, url } = this.normalize(request);
+      throw new CassetteMissError(this.file, `no unused recording for ${method} ${url}`);
+    }
+    this.used.add(index);
+    return this.interactions[index].response;
+  }
+}
+
+/* ------------------ AXIOS ------------------ */
+
+function axiosRequest(http: AxiosInstance, config: InternalAxiosRequestConfig): RecordedRequest {
+  return {
+    method: config.method ?? "get",
+    url: http.getUri(config),
+    body: config.data,
+  };
+}
+
+function headerRecord(headers: AxiosResponse["headers"]): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers)
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([key, value]) => [key, Array.isArray(value) ? value.join(", ") : String(value)])
+  );
+}
+
+function toAxiosResponse(
+  recorded: RecordedResponse,
+  config: InternalAxiosRequestConfig
+): AxiosResponse {
+  const response: AxiosResponse = {
+    data: recorded.body,
+    status: recorded.status,
+    statusText: "",
+    headers: recorded.headers,
+    config,
+  };
+
+  const validateStatus = config.validateStatus ?? ((status) => status >= 200 && status < 300);
+  if (validateStatus(recorded.status)) return response;
+  throw new AxiosError(
+    `Request failed with status code ${recorded.status}`,
+    recorded.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+    config,
+    null,
+    response
+  );
+}
+
+/**
+ * Routes every request of an axios instance through the cassette. A function
+ * is asked for the cassette on each request; requests go to the network while
+ * it returns none.
+ */
+export function installCassette(
+  http: AxiosInstance,
+  cassette: Cassette | (() => Cassette | undefined)
+) {
+  const network = getAdapter(http.defaults.adapter);
+  const current = typeof cassette === "function" ? cassette : () => cassette;
+
+  http.defaults.adapter = async (config) => {
+    const active = current();
+    if (!active) return network(config);
+
+    const request = axiosRequest(http, config);
+    if (active.mode === "replay") return toAxiosResponse(active.replay(request), config);
+
+    try {
+      const response = await network(config);
+      active.record(request, {
+        status: response.status,
+        headers: headerRecord(response.headers),
+        body: response.data,
+      });
+      return response;
+    } catch (err) {
+      const response = (err as AxiosError).response;
+      if (response) {
+        active.record(request, {
+          status: response.status,
+          headers: headerRecord(response.headers),
+          body: response.data,
+        });
+      }
+      throw err;
+    }
+  };
+}
+
+/* ------------------ ACTIVE CASSETTE ------------------ */
+
+/**
+ * Enabled with `KANA_CASSETTE=<file>` and `KANA_CASSETTE_MODE=record|replay`
+ * (replay when the mode is omitted).
+ */
+function cassetteFromEnv(env = process.env): Cassette | undefined {
+  const file = env.KANA_CASSETTE;
+  if (!file) return undefined;
+
+  const mode = env.KANA_CASSETTE_MODE ?? "replay";
+  if (mode !== "record" && mode !== "replay") {
+    throw new Error(`KANA_CASSETTE_MODE must be "record" or "replay", got "${mode}"`);
+  }
+  return new Cassette(path.resolve(file), mode, [getKanaConfig().kana.apiKey]);
+}
+
+let active: { cassette?: Cassette } | undefined;
+
+/** The cassette the environment asks for, created on first use. */
+export function activeCassette(): Cassette | undefined {
+  if (!active) active = { cassette: cassetteFromEnv() };
+  return active.cassette;
+}
+
+/* ------------------ FETCH ------------------ */
+
+/** `fetch` for the Circle attestation pollers, routed through the active cassette. */
+export async function cassetteFetch(
+  url: string,
+  init?: RequestInit,
+  cassette = activeCassette()
+): Promise<Response> {
+  if (!cassette) return fetch(url, init);
+
+  const request: RecordedRequest = {
+    method: init?.method ?? "GET",
+    url,
+    body: typeof init?.body === "string" ? init.body : undefined,
+  };
+  if (cassette.mode === "replay") {
+    const recorded = cassette.replay(request);
+    const body = typeof recorded.body === "string" ? recorded.body : JSON.stringify(recorded.body);
+    return new Response(body, { status: recorded.status, headers: recorded.headers });
+  }
+
+  const res = await fetch(url, init);
+  const body = await res.text();
+  cassette.record(request, {
+    status: res.status,
+    headers: Object.fromEntries(res.headers.entries()),
+    body,
+  });
+  return new Response(body, { status: res.status, headers: res.headers });
+}
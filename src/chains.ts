@@ -0,0 +1,184 @@
+import type { providers } from "ethers";
+import type { Chain } from "viem";
+import {
+  arbitrum,
+  avalanche,
+  base,
+  bsc,
+  mainnet,
+  polygon,
+  zksync,
+} from "viem/chains";
+import { NetworkId } from "./constant";
+
+/* ------------------ TYPES ------------------ */
+
+export type ChainFamily = "evm" | "solana" | "aptos" | "sui" | "ton";
+
+export interface NativeToken {
+  symbol: string;
+  /** Address the Kana API uses for the native asset. */
+  address: string;
+  decimals: number;
+}
+
+export interface ChainInfo {
+  id: NetworkId;
+  name: string;
+  family: ChainFamily;
+  nativeToken: NativeToken;
+  /** Circle CCTP domain, absent on chains CCTP does not serve. */
+  cctpDomain?: number;
+  /** Typical wait, in seconds, for Circle to attest a burn on this chain. */
+  attestationSeconds?: number;
+  /** Templates with a `{hash}` or `{address}` placeholder. */
+  explorer: { tx: string; address: string };
+  /** Environment variable read for the chain's RPC endpoint. */
+  rpcEnv: string;
+  /** Public endpoint used when no RPC is configured. */
+  defaultRpcUrl?: string;
+  viemChain?: Chain;
+  ethersNetwork?: providers.Network;
+}
+
+/* ------------------ REGISTRY ------------------ */
+
+// Kana's placeholder address for the native coin on every EVM chain.
+export const EVM_NATIVE_TOKEN = "0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee";
+
+function evm(
+  id: NetworkId,
+  name: string,
+  symbol: string,
+  explorer: string,
+  viemChain: Chain,
+  ethersName: string,
+  cctpDomain?: number,
+  attestationSeconds?: number
+): ChainInfo {
+  return {
+    id,
+    name,
+    family: "evm",
+    nativeToken: { symbol, address: EVM_NATIVE_TOKEN, decimals: 18 },
+    cctpDomain,
+    attestationSeconds,
+    explorer: { tx: `${explorer}/tx/{hash}`, address: `${explorer}/address/{address}` },
+    rpcEnv: `${NetworkId[id].toUpperCase()}_RPC_URL`,
+    viemChain,
+    ethersNetwork: { name: ethersName, chainId: viemChain.id },
+  };
+}
+
+export const CHAINS: Record<NetworkId, ChainInfo> = {
+  [NetworkId.solana]: {
+    id: NetworkId.solana,
+    name: "Solana",
+    family: "solana",
+    nativeToken: {
+      symbol: "SOL",
+      address: "So11111111111111111111111111111111111111112",
+      decimals: 9,
+    },
+    cctpDomain: 5,
+    attestationSeconds: 25,
+    explorer: {
+      tx: "https://solscan.io/tx/{hash}",
+      address: "https://solscan.io/account/{address}",
+    },
+    rpcEnv: "SOLANA_RPC_URL",
+    defaultRpcUrl: "https://api.mainnet-beta.solana.com",
+  },
+  [NetworkId.aptos]: {
+    id: NetworkId.aptos,
+    name: "Aptos",
+    family: "aptos",
+    nativeToken: { symbol: "APT", address: "0x1::aptos_coin::AptosCoin", decimals: 8 },
+    cctpDomain: 9,
+    attestationSeconds: 15,
+    explorer: {
+      tx: "https://explorer.aptoslabs.com/txn/{hash}?network=mainnet",
+      address: "https://explorer.aptoslabs.com/account/{address}?network=mainnet",
+    },
+    rpcEnv: "APTOS_RPC_URL",
+  },
+  [NetworkId.polygon]: evm(NetworkId.polygon, "Polygon", "POL", "https://polygonscan.com", polygon, "matic", 7, 480),
+  [NetworkId.bsc]: evm(NetworkId.bsc, "BNB Chain", "BNB", "https://bscscan.com", bsc, "bnb"),
+  [NetworkId.sui]: {
+    id: NetworkId.sui,
+    name: "Sui",
+    family: "sui",
+    nativeToken: { symbol: "SUI", address: "0x2::sui::SUI", decimals: 9 },
+    cctpDomain: 8,
+    attestationSeconds: 15,
+    explorer: {
+      tx: "https://suiscan.xyz/mainnet/tx/{hash}",
+      address: "https://suiscan.xyz/mainnet/account/{address}",
+    },
+    rpcEnv: "SUI_RPC_URL",
+  },
+  [NetworkId.ethereum]: evm(NetworkId.ethereum, "Ethereum", "ETH", "https://etherscan.io", mainnet, "homestead", 0, 1140),
+  [NetworkId.base]: evm(NetworkId.base, "Base", "ETH", "https://basescan.org", base, "base", 6, 1140),
+  [NetworkId.zkSync]: evm(NetworkId.zkSync, "zkSync Era", "ETH", "https://explorer.zksync.io", zksync, "zksync"),
+  [NetworkId.Avalanche]: evm(NetworkId.Avalanche, "Avalanche", "AVAX", "https://snowtrace.io", avalanche, "avalanche", 1, 20),
+  [NetworkId.Arbitrum]: evm(NetworkId.Arbitrum, "Arbitrum One", "ETH", "https://arbiscan.io", arbitrum, "arbitrum", 3, 1140),
+  [NetworkId.ton]: {
+    id: NetworkId.ton,
+    name: "TON",
+    family: "ton",
+    nativeToken: {
+      symbol: "TON",
+      address: "EQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAM9c",
+      decimals: 9,
+    },
+    explorer: {
+      tx: "https://tonviewer.com/transaction/{hash}",
+      address: "https://tonviewer.com/{address}",
+    },
+    rpcEnv: "TON_RPC_URL",
+    defaultRpcUrl: "https://toncenter.com/api/v2/jsonRPC",
+  },
+};
+
+/* ------------------ LOOKUPS ------------------ */
+
+export function getChain(id: NetworkId): ChainInfo {
+  const chain = CHAINS[id];
+  if (!chain) throw new Error(`Unknown chain id ${id}`);
+  return chain;
+}
+
+/** The EVM chain with this EIP-155 chain id, if it is in the registry. */
+export function chainByEvmId(chainId: number): ChainInfo | undefined {
+  return Object.values(CHAINS).find((chain) => chain.ethersNetwork?.chainId === chainId);
+}
+
+export function isEvmChain(id: NetworkId): boolean {
+  return getChain(id).family === "evm";
+}
+
+export function cctpDomain(id: NetworkId): number {
+  const { cctpDomain, name } = getChain(id);
+  if (cctpDomain === undefined) throw new Error(`${name} is not served by CCTP`);
+  return cctpDomain;
+}
+
+export function explorerTxUrl(id: NetworkId, hash: string): string {
+  return getChain(id).explorer.tx.replace("{hash}", hash);
+}
+
+export function explorerAddressUrl(id: NetworkId, address: string): string {
+  return getChain(id).explorer.address.replace("{address}", address);
+}
+
+export function viemChain(id: NetworkId): Chain {
+  const { viemChain, name } = getChain(id);
+  if (!viemChain) throw new Error(`${name} is not an EVM chain`);
+  return viemChain;
+}
+
+export function ethersNetwork(id: NetworkId): providers.Network {
+  const { ethersNetwork, name } = getChain(id);
+  if (!ethersNetwork) throw new Error(`${name} is not an EVM chain`);
+  return ethersNetwork;
+}
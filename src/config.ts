@@ -0,0 +1,470 @@
+import "dotenv/config";
+import fs from "fs";
+import path from "path";
+import bs58 from "bs58";
+import { CHAINS } from "./chains";
+import { KANA_API_URL, NetworkId } from "./constant";
+import { ConfigError } from "./errors";
+
+/* ------------------ TYPES ------------------ */
+
+export type ChainName = keyof typeof NetworkId;
+
+/** "legacy" sends `gasPrice` transactions, for EVM chains or RPCs without EIP-1559. */
+export type FeeMode = "eip1559" | "legacy";
+
+export type FeeSpeed = "slow" | "normal" | "fast";
+
+/** "exact" approves what the transaction spends; "unlimited" approves the maximum once. */
+export type ApprovalPolicy = "exact" | "unlimited";
+
+/** "approve" sends the API's approve transaction; "permit" signs a permit when the token allows. */
+export type ApprovalMethod = "approve" | "permit";
+
+/** What to do with a transaction still pending after `stuckAfterSeconds`. */
+export type StuckAction = "bump" | "cancel" | "wait";
+
+export interface ChainSettings {
+  rpcUrl?: string;
+  privateKey?: string;
+  /** Account address, only needed when it no longer derives from the key (rotated Aptos keys). */
+  address?: string;
+  /** RPC provider API key (Toncenter). */
+  apiKey?: string;
+  /** Wallet mnemonic (TON). */
+  mnemonic?: string;
+  /** Only take routes from these providers (comma-separated in env vars and flags). */
+  includeProviders?: string[];
+  /** Never take routes from these providers. */
+  excludeProviders?: string[];
+  /** EVM only; detected from the latest block when unset. */
+  feeMode?: FeeMode;
+  /** EVM only; how far above recent fees to bid (default "normal"). */
+  feeSpeed?: FeeSpeed;
+  /** EVM only; how much to approve when an allowance falls short (default "exact"). */
+  approvalPolicy?: ApprovalPolicy;
+  /** EVM only; how to grant a missing allowance (default "approve"). */
+  approvalMethod?: ApprovalMethod;
+  /** EVM only; how long a transaction may stay pending before it counts as stuck (default 120). */
+  stuckAfterSeconds?: number;
+  /** EVM only; "bump" re-sends with higher fees, "cancel" also cancels once bumps run out (default "bump"). */
+  onStuck?: StuckAction;
+  /** EVM only; fee bumps per stuck transaction (default 3). */
+  maxFeeBumps?: number;
+}
+
+export type DriftAction = "abort" | "ask";
+
+export interface QuotePolicy {
+  /** Quotes older than this are re-fetched before an instruction is built. */
+  maxAgeSeconds: number;
+  /** Largest drop in output, in percent, accepted from a re-fetched quote. */
+  maxDriftPercent: number;
+  /** Past the tolerance: stop, or ask on the terminal (stops when there is none). */
+  onDrift: DriftAction;
+  /** Quotes whose price impact, in percent, is above this are refused before signing. */
+  maxPriceImpactPercent: number;
+  /** How long `getIndicativeSwapQuote` serves a cached quote; 0 disables the cache. */
+  cacheTtlSeconds: number;
+  /** Significant digits of the amount kept in the cache key; nearby amounts share an entry. */
+  cacheAmountDigits: number;
+}
+
+export interface KanaConfig {
+  kana: {
+    apiUrl: string;
+    apiKey?: string;
+  };
+  quotes: QuotePolicy;
+  chains: Partial<Record<ChainName, ChainSettings>>;
+}
+
+/* ------------------ DEFAULTS ------------------ */
+
+const CONFIG_FILE = "kana.config.json";
+
+const CHAIN_NAMES = Object.keys(NetworkId).filter((key) =>
+  Number.isNaN(Number(key))
+) as ChainName[];
+
+const chainInfo = (chain: ChainName) => CHAINS[NetworkId[chain]];
+
+const DEFAULTS: KanaConfig = {
+  kana: { apiUrl: KANA_API_URL },
+  quotes: {
+    maxAgeSeconds: 30,
+    maxDriftPercent: 0.5,
+    onDrift: "ask",
+    maxPriceImpactPercent: 3,
+    cacheTtlSeconds: 5,
+    cacheAmountDigits: 3,
+  },
+  chains: Object.fromEntries(
+    CHAIN_NAMES.map((chain) => [chain, { rpcUrl: chainInfo(chain).defaultRpcUrl }])
+  ),
+};
+
+const QUOTE_KEYS: (keyof QuotePolicy)[] = [
+  "maxAgeSeconds",
+  "maxDriftPercent",
+  "onDrift",
+  "maxPriceImpactPercent",
+  "cacheTtlSeconds",
+  "cacheAmountDigits",
+];
+
+const DRIFT_ACTIONS: DriftAction[] = ["abort", "ask"];
+
+const SETTING_KEYS: (keyof ChainSettings)[] = [
+  "rpcUrl",
+  "privateKey",
+  "address",
+  "apiKey",
+  "mnemonic",
+  "includeProviders",
+  "excludeProviders",
+  "feeMode",
+  "feeSpeed",
+  "approvalPolicy",
+  "approvalMethod",
+  "stuckAfterSeconds",
+  "onStuck",
+  "maxFeeBumps",
+];
+
+const FEE_MODES: FeeMode[] = ["eip1559", "legacy"];
+const FEE_SPEEDS: FeeSpeed[] = ["slow", "normal", "fast"];
+const APPROVAL_POLICIES: ApprovalPolicy[] = ["exact", "unlimited"];
+const APPROVAL_METHODS: ApprovalMethod[] = ["approve", "permit"];
+const STUCK_ACTIONS: StuckAction[] = ["bump", "cancel", "wait"];
+
+const LIST_KEYS: (keyof ChainSettings)[] = ["includeProviders", "excludeProviders"];
+
+const NUMBER_KEYS: (keyof ChainSettings)[] = ["stuckAfterSeconds", "maxFeeBumps"];
+
+/** Values copied unchanged from kana.config.example.json. */
+export const isPlaceholder = (value: unknown): boolean => typeof value === "string" && /^YOUR_/.test(value);
+
+// Number("") is 0, so a blank env var would silently become a zero setting.
+const isNonNegative = (value: unknown): boolean =>
+  (typeof value === "number" || (typeof value === "string" && value.trim() !== "")) && Number(value) >= 0;
+
+function toList(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : String(value).split(",");
+  return items.map((item) => String(item).trim()).filter(Boolean);
+}
+
+/* ------------------ SOURCES ------------------ */
+
+type Env = Record<string, string | undefined>;
+
+/** A configuration layer as read, before validation; sections are narrowed with `sectionOf`. */
+type Layer = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+function sectionOf(layer: Layer, key: string): Record<string, unknown> {
+  const section = layer[key];
+  return isRecord(section) ? section : {};
+}
+
+function envName(chain: ChainName, key: keyof ChainSettings): string {
+  if (key === "rpcUrl") return chainInfo(chain).rpcEnv;
+  const suffix = key.replace(/[A-Z]/g, (c) => `_${c}`).toUpperCase();
+  return `${chain.toUpperCase()}_${suffix}`;
+}
+
+function readFile(file: string | undefined, explicit: boolean): Layer {
+  const resolved = path.resolve(file ?? CONFIG_FILE);
+  if (!fs.existsSync(resolved)) {
+    if (explicit) throw new ConfigError([`config file not found: ${resolved}`]);
+    return {};
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(resolved, "utf8"));
+  } catch (err) {
+    throw new ConfigError([`${resolved} is not valid JSON: ${err instanceof Error ? err.message : err}`]);
+  }
+  if (!isRecord(parsed)) throw new ConfigError([`${resolved} must hold a JSON object`]);
+  return parsed;
+}
+
+function fromEnv(env: Env): Layer {
+  // Every setting arrives as a string here, lists included.
+  const chains: Record<string, Partial<Record<keyof ChainSettings, string>>> = {};
+  const set = (chain: ChainName, key: keyof ChainSettings, value?: string) => {
+    if (value) (chains[chain] ??= {})[key] = value;
+  };
+
+  // Names the examples have always read, kept working as aliases.
+  for (const chain of CHAIN_NAMES) {
+    if (chainInfo(chain).family === "evm") set(chain, "privateKey", env.EVM_PRIVATE_KEY);
+  }
+  set("solana", "rpcUrl", env.RPC_ENDPOINT);
+  set("ton", "rpcUrl", env.TONCENTER_API_URL);
+  set("ton", "apiKey", env.TONCENTER_API_KEY);
+  set("ton", "mnemonic", env.MNEMONIC);
+
+  for (const chain of CHAIN_NAMES) {
+    for (const key of SETTING_KEYS) set(chain, key, env[envName(chain, key)]);
+  }
+
+  return {
+    kana: { apiUrl: env.KANA_API_URL, apiKey: env.XYRA_API_KEY },
+    quotes: {
+      maxAgeSeconds: env.QUOTE_MAX_AGE_SECONDS,
+      maxDriftPercent: env.QUOTE_MAX_DRIFT_PERCENT,
+      onDrift: env.QUOTE_ON_DRIFT,
+      maxPriceImpactPercent: env.QUOTE_MAX_PRICE_IMPACT_PERCENT,
+      cacheTtlSeconds: env.QUOTE_CACHE_TTL_SECONDS,
+      cacheAmountDigits: env.QUOTE_CACHE_AMOUNT_DIGITS,
+    },
+    chains,
+  };
+}
+
+/**
+ * Reads `--config <file>` and dotted overrides such as `--chains.polygon.rpcUrl=<url>`
+ * or `--quotes.maxAgeSeconds=10`.
+ */
+function fromArgv(argv: string[]): { file?: string; overrides: Layer } {
+  const overrides: Layer = {};
+  let file: string | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    const match = /^--(config|(?:kana|quotes|chains)\.[\w.]+)(?:=(.*))?$/.exec(argv[i]);
+    if (!match) continue;
+    const value = match[2] ?? argv[++i];
+    if (value === undefined) throw new ConfigError([`${argv[i - 1]} needs a value`]);
+
+    if (match[1] === "config") {
+      file = value;
+      continue;
+    }
+    const keys = match[1].split(".");
+    let target = overrides;
+    for (const key of keys.slice(0, -1)) {
+      const next = target[key];
+      if (isRecord(next)) {
+        target = next;
+      } else {
+        const created: Record<string, unknown> = {};
+        target = target[key] = created;
+      }
+    }
+    target[keys[keys.length - 1]] = value;
+  }
+  return { file, overrides };
+}
+
+function merge(...layers: Layer[]): Layer {
+  const result: Record<string, Record<string, unknown>> = { kana: {}, quotes: {}, chains: {} };
+  for (const layer of layers) {
+    for (const section of ["kana", "quotes"]) {
+      for (const [key, value] of Object.entries(sectionOf(layer, section))) {
+        if (value !== undefined) result[section][key] = value;
+      }
+    }
+    for (const [chain, settings] of Object.entries(sectionOf(layer, "chains"))) {
+      if (!isRecord(settings)) {
+        result.chains[chain] = settings;
+        continue;
+      }
+      const merged = isRecord(result.chains[chain]) ? result.chains[chain] : {};
+      for (const [key, value] of Object.entries(settings)) {
+        if (value !== undefined) merged[key] = value;
+      }
+      result.chains[chain] = merged;
+    }
+  }
+  return result;
+}
+
+/* ------------------ VALIDATION ------------------ */
+
+function isUrl(value: string, protocols: string[]): boolean {
+  try {
+    return protocols.includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+function checkPrivateKey(chain: ChainName, key: string): string | undefined {
+  switch (chainInfo(chain).family) {
+    case "solana":
+      try {
+        if (bs58.decode(key).length === 64) return;
+      } catch {}
+      return "a base58-encoded 64-byte secret key";
+    case "aptos":
+      return /^(ed25519-priv-)?(0x)?[0-9a-fA-F]{64}$/.test(key)
+        ? undefined
+        : "a 32-byte hex Ed25519 key";
+    case "evm":
+      return /^(0x)?[0-9a-fA-F]{64}$/.test(key) ? undefined : "a 32-byte hex key";
+  }
+}
+
+function validate(config: Layer): string[] {
+  const issues: string[] = [];
+  const { apiUrl, apiKey } = sectionOf(config, "kana");
+
+  if (typeof apiUrl !== "string" || !isUrl(apiUrl, ["http:", "https:"])) {
+    issues.push(`kana.apiUrl: "${apiUrl}" is not an http(s) URL`);
+  }
+  if (apiKey !== undefined && typeof apiKey !== "string") {
+    issues.push(`kana.apiKey: expected a string`);
+  } else if (isPlaceholder(apiKey)) {
+    issues.push(`kana.apiKey: still set to the placeholder "${apiKey}"`);
+  }
+
+  for (const [key, value] of Object.entries(sectionOf(config, "quotes"))) {
+    const where = `quotes.${key}`;
+    if (!QUOTE_KEYS.includes(key as keyof QuotePolicy)) {
+      issues.push(`${where}: unknown setting`);
+    } else if (key === "onDrift") {
+      if (!DRIFT_ACTIONS.includes(value as DriftAction)) {
+        issues.push(`${where}: expected one of ${DRIFT_ACTIONS.join(", ")}`);
+      }
+    } else if (!isNonNegative(value)) {
+      issues.push(`${where}: expected a non-negative number, got "${value}"`);
+    }
+  }
+
+  for (const [chain, settings] of Object.entries(sectionOf(config, "chains"))) {
+    if (!CHAIN_NAMES.includes(chain as ChainName)) {
+      issues.push(`chains.${chain}: unknown chain (expected one of ${CHAIN_NAMES.join(", ")})`);
+      continue;
+    }
+    if (!isRecord(settings)) {
+      issues.push(`chains.${chain}: expected an object of settings`);
+      continue;
+    }
+    for (const [key, value] of Object.entries(settings)) {
+      const where = `chains.${chain}.${key}`;
+      if (!SETTING_KEYS.includes(key as keyof ChainSettings)) {
+        issues.push(`${where}: unknown setting`);
+      } else if (LIST_KEYS.includes(key as keyof ChainSettings)) {
+        if (!(typeof value === "string" || (Array.isArray(value) && value.every((v) => typeof v === "string")))) {
+          issues.push(`${where}: expected a list of provider names`);
+        }
+      } else if (NUMBER_KEYS.includes(key as keyof ChainSettings)) {
+        if (!isNonNegative(value)) issues.push(`${where}: expected a non-negative number, got "${value}"`);
+      } else if (typeof value !== "string") {
+        issues.push(`${where}: expected a string`);
+      } else if (key === "feeMode" && !FEE_MODES.includes(value as FeeMode)) {
+        issues.push(`${where}: expected one of ${FEE_MODES.join(", ")}`);
+      } else if (key === "feeSpeed" && !FEE_SPEEDS.includes(value as FeeSpeed)) {
+        issues.push(`${where}: expected one of ${FEE_SPEEDS.join(", ")}`);
+      } else if (key === "approvalPolicy" && !APPROVAL_POLICIES.includes(value as ApprovalPolicy)) {
+        issues.push(`${where}: expected one of ${APPROVAL_POLICIES.join(", ")}`);
+      } else if (key === "approvalMethod" && !APPROVAL_METHODS.includes(value as ApprovalMethod)) {
+        issues.push(`${where}: expected one of ${APPROVAL_METHODS.join(", ")}`);
+      } else if (key === "onStuck" && !STUCK_ACTIONS.includes(value as StuckAction)) {
+        issues.push(`${where}: expected one of ${STUCK_ACTIONS.join(", ")}`);
+      } else if (isPlaceholder(value)) {
+        // Only a problem on the chains a flow uses; chainConfig reports those.
+        continue;
+      } else if (key === "rpcUrl" && !isUrl(value, ["http:", "https:", "ws:", "wss:"])) {
+        issues.push(`${where}: "${value}" is not a URL`);
+      } else if (key === "privateKey") {
+        const expected = checkPrivateKey(chain as ChainName, value);
+        if (expected) issues.push(`${where}: expected ${expected}`);
+      } else if (key === "mnemonic" && ![12, 24].includes(value.trim().split(/\s+/).length)) {
+        issues.push(`${where}: expected 12 or 24 words`);
+      }
+    }
+  }
+
+  return issues;
+}
+
+/* ------------------ LOADER ------------------ */
+
+/**
+ * Builds the configuration from, in increasing precedence: built-in defaults,
+ * `kana.config.json` (or `--config` / `KANA_CONFIG`), environment variables
+ * and command-line overrides. Throws a ConfigError listing every problem.
+ */
+export function loadConfig(
+  argv: string[] = process.argv.slice(2),
+  env: Env = process.env
+): KanaConfig {
+  const cli = fromArgv(argv);
+  const file = cli.file ?? (env.KANA_CONFIG || undefined);
+  const merged = merge({ ...DEFAULTS }, readFile(file, file !== undefined), fromEnv(env), cli.overrides);
+
+  const issues = validate(merged);
+  if (issues.length) throw new ConfigError(issues);
+
+  // Environment variables and flags arrive as strings.
+  const quotes = sectionOf(merged, "quotes");
+  for (const key of QUOTE_KEYS) {
+    if (key !== "onDrift") quotes[key] = Number(quotes[key]);
+  }
+
+  for (const [chain, settings] of Object.entries(sectionOf(merged, "chains"))) {
+    if (!isRecord(settings)) continue;
+    for (const key of LIST_KEYS) {
+      if (settings[key] !== undefined) settings[key] = toList(settings[key]);
+    }
+    for (const key of NUMBER_KEYS) {
+      if (settings[key] !== undefined) settings[key] = Number(settings[key]);
+    }
+
+    // viem only accepts 0x-prefixed keys; accept both forms in the config.
+    const key = settings.privateKey;
+    if (
+      typeof key === "string" &&
+      !isPlaceholder(key) &&
+      chainInfo(chain as ChainName).family === "evm" &&
+      !key.startsWith("0x")
+    ) {
+      settings.privateKey = `0x${key}`;
+    }
+  }
+
+  // validate() has checked every value against the KanaConfig shape.
+  return merged as unknown as KanaConfig;
+}
+
+let loaded: KanaConfig | undefined;
+
+/**
+ * The process configuration, loaded from `process.argv` and `process.env` on
+ * first use, so importing a module that needs it never throws by itself.
+ */
+export function getKanaConfig(): KanaConfig {
+  return (loaded ??= loadConfig());
+}
+
+/**
+ * Returns the settings for a chain and fails fast, naming every source that
+ * could provide them, when one of the `required` settings is missing or still
+ * a placeholder. Optional settings left as placeholders are returned unset.
+ */
+export function chainConfig<K extends keyof ChainSettings>(
+  chain: NetworkId,
+  ...required: K[]
+): ChainSettings & Required<Pick<ChainSettings, K>> {
+  const name = NetworkId[chain] as ChainName;
+  const settings = Object.fromEntries(
+    Object.entries(getKanaConfig().chains[name] ?? {}).filter(([, value]) => !isPlaceholder(value))
+  ) as ChainSettings;
+
+  const issues = required
+    .filter((key) => !settings[key])
+    .map((key) => {
+      const value = getKanaConfig().chains[name]?.[key];
+      if (isPlaceholder(value)) return `chains.${name}.${key}: still set to the placeholder "${value}"`;
+      const envNames = [envName(name, key)];
+      if (key === "privateKey" && chainInfo(name).family === "evm") envNames.push("EVM_PRIVATE_KEY");
+      return `chains.${name}.${key} is not set (${CONFIG_FILE}, ${envNames.join(" / ")} or --chains.${name}.${key})`;
+    });
+  if (issues.length) throw new ConfigError(issues);
+
+  return settings as ChainSettings & Required<Pick<ChainSettings, K>>;
+}
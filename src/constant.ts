@@ -12,4 +12,13 @@ export enum NetworkId {
     'Arbitrum' = 11,
     'ton' = 14,
 }
-export const KANA_DIAMOND_ADDRESS = "0xA1BB807fF6701f4e1b404Eb35Da55d8E9f3fb25c";
\ No newline at end of file
+export enum BridgeId {
+    native = 0,
+    wormhole = 1,
+    layerzero = 2,
+    cctp = 3,
+    cctpV2 = 4,
+}
+export const KANA_DIAMOND_ADDRESS = "0xA1BB807fF6701f4e1b404Eb35Da55d8E9f3fb25c";
+// Contracts that Kana instructions ask ERC-20 approvals for.
+export const KANA_SPENDERS = [KANA_DIAMOND_ADDRESS];
\ No newline at end of file
@@ -3,7 +3,6 @@
  * Burn → Attestation → Claim → Mint USDC → Swap to POL (MATIC)
  */
 
-import axios from "axios";
 import "dotenv/config";
 
 import {
@@ -16,31 +15,55 @@ import {
   PrivateKeyVariants,
 } from "@aptos-labs/ts-sdk";
 
-import { ethers, BigNumber } from "ethers";
-import { KANA_API_URL, NetworkId } from "../constant";
+import { ethers } from "ethers";
+import { chainConfig } from "../config";
+import { parseAmount } from "../amount";
+import { describeCrossChainQuote } from "../crossChainQuote";
+import { cctpDomain, ethersNetwork, getChain } from "../chains";
+import { cassetteFetch } from "../cassette";
+import { NetworkId } from "../constant";
+import { executeEvmClaim, executeEvmSwap } from "../evm/executor";
+import { signSwapPermit } from "../evm/permit";
+import { ethersBackend } from "../evm/ethers";
+import { kanaClient } from "../kanaClient";
+import { checkDrift, ensureFreshQuote } from "../quoteGuard";
+import { legSlippage } from "../slippage";
+import { maxInput } from "../swapAmounts";
+import {
+  AptosEntryFunctionPayload,
+  AptosTransferInstruction,
+  Slippage,
+} from "../types";
+import {
+  aptosTransferInstructionSchema,
+  evmClaimInstructionSchema,
+  evmSwapInstructionSchema,
+} from "../schemas";
 
 /* -------------------------------------------------------------------------- */
 /* CONFIG                                                                      */
 /* -------------------------------------------------------------------------- */
 
-const SOURCE_TOKEN = "0x1::aptos_coin::AptosCoin";
-const TARGET_TOKEN = "0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee"; // POL / MATIC
-const AMOUNT_IN = "1000000";
-const SLIPPAGE = 0.5;
+const SOURCE_TOKEN = getChain(NetworkId.aptos).nativeToken.address;
+const TARGET_TOKEN = getChain(NetworkId.polygon).nativeToken.address; // POL / MATIC
+const AMOUNT_IN = "0.01 APT";
+// Percent per swap leg, or "auto" to follow each leg's quoted price impact.
+const SOURCE_SLIPPAGE: Slippage = 0.5;
+const TARGET_SLIPPAGE: Slippage = 0.5;
 
-const headers = {
-  "Content-Type": "application/json",
-  "X-API-KEY": process.env.XYRA_API_KEY!,
-};
+const aptosSettings = chainConfig(NetworkId.aptos, "privateKey");
+const polygonSettings = chainConfig(NetworkId.polygon, "privateKey", "rpcUrl");
 
 /* ----------------------------- APTOS SETUP -------------------------------- */
 
-const aptos = new Aptos(new AptosConfig({ network: Network.MAINNET }));
+const aptos = new Aptos(
+  new AptosConfig({ network: Network.MAINNET, fullnode: aptosSettings.rpcUrl })
+);
 
 const aptosAccount = new Ed25519Account({
   privateKey: new Ed25519PrivateKey(
     PrivateKey.formatPrivateKey(
-      process.env.APTOS_PRIVATE_KEY!,
+      aptosSettings.privateKey,
       PrivateKeyVariants.Ed25519
     )
   ),
@@ -49,85 +72,16 @@ const aptosAccount = new Ed25519Account({
 /* ------------------------------ POLYGON SETUP ----------------------------- */
 
 const provider = new ethers.providers.JsonRpcProvider(
-  process.env.POLYGON_RPC_URL!
+  polygonSettings.rpcUrl,
+  ethersNetwork(NetworkId.polygon)
 );
 
-(provider as any)._isEip1559 = false;
-
 const signer = new ethers.Wallet(
-  process.env.EVM_PRIVATE_KEY!,
+  polygonSettings.privateKey,
   provider
 );
 
-/* ------------------------- EVM EXECUTOR (REUSED) -------------------------- */
-
-interface TransactionIX {
-  to: string;
-  from: string;
-  value: string;
-  data: string;
-  gasPrice: string;
-  chainId: number;
-}
-
-interface SwapIX {
-  approveIX?: TransactionIX;
-  swapIX: TransactionIX;
-}
-
-function increaseGasLimit(gas: number) {
-  return Math.ceil(gas * 1.1);
-}
-
-async function executeEVMInstruction(
-  signer: ethers.Wallet,
-  instruction: SwapIX
-) {
-  const provider = signer.provider!;
-  const gasPrice = await provider.getGasPrice(); // legacy gas
-
-  if (instruction.approveIX) {
-    const a = instruction.approveIX;
-
-    const approveTx = {
-      from: a.from,
-      to: a.to,
-      data: a.data,
-      value: BigNumber.from(a.value),
-      gasPrice,
-      chainId: a.chainId,
-    };
-
-    const gas = await provider.estimateGas(approveTx);
-    const tx = await signer.sendTransaction({
-      ...approveTx,
-      gasLimit: gas.mul(110).div(100), // +10%
-    });
-
-    await tx.wait();
-  }
-
-  const s = instruction.swapIX;
-
-  const swapTx = {
-    from: s.from,
-    to: s.to,
-    data: s.data,
-    value: BigNumber.from(s.value),
-    gasPrice,
-    chainId: s.chainId,
-  };
-
-  const gas = await provider.estimateGas(swapTx);
-  const tx = await signer.sendTransaction({
-    ...swapTx,
-    gasLimit: gas.mul(110).div(100),
-  });
-
-  const receipt = await tx.wait();
-  return receipt.transactionHash;
-}
-
+const polygon = ethersBackend(signer);
 
 /* -------------------------------------------------------------------------- */
 /* MAIN FLOW                                                                   */
@@ -137,34 +91,30 @@ async function aptosToPolygonSwap() {
   console.log("🚀 Aptos → Polygon swap started");
 
   /* --------------------------- 1. QUOTE ---------------------------------- */
-  const quoteRes = await axios.get(`${KANA_API_URL}/v1/crossChainQuote`, {
-    params: {
-      sourceToken: SOURCE_TOKEN,
-      targetToken: TARGET_TOKEN,
-      sourceChain: NetworkId.aptos,
-      targetChain: NetworkId.polygon,
-      amountIn: AMOUNT_IN,
-      sourceSlippage: SLIPPAGE,
-      targetSlippage: SLIPPAGE,
-    },
-    headers,
-  });
-
-  const quote = quoteRes.data.data[0];
+  const amountIn = await parseAmount(NetworkId.aptos, AMOUNT_IN);
+  const request = {
+    sourceToken: SOURCE_TOKEN,
+    targetToken: TARGET_TOKEN,
+    sourceChain: NetworkId.aptos,
+    targetChain: NetworkId.polygon,
+    amountIn: amountIn.amount,
+    sourceSlippage: SOURCE_SLIPPAGE,
+    targetSlippage: TARGET_SLIPPAGE,
+  };
+  const { quote } = await kanaClient.getBestCrossChainQuote(request);
   console.log("✅ Quote fetched");
+  console.log(await describeCrossChainQuote(quote, request));
 
   /* ---------------------- 2. SOURCE INSTRUCTIONS -------------------------- */
-  const transferRes = await axios.post(
-    `${KANA_API_URL}/v1/crossChainTransfer`,
-    {
-      quote,
-      sourceAddress: aptosAccount.accountAddress.toString(),
-      targetAddress: signer.address,
-    },
-    { headers }
-  );
-
-  const instruction = transferRes.data.data;
+  const { instruction, quote: transferQuote } =
+    await kanaClient.getCrossChainTransfer(
+      {
+        quote,
+        sourceAddress: aptosAccount.accountAddress.toString(),
+        targetAddress: signer.address,
+      },
+      aptosTransferInstructionSchema
+    );
   console.log("✅ Source instructions built");
 
   /* -------------------- 3. EXECUTE ON APTOS ------------------------------- */
@@ -185,70 +135,62 @@ async function aptosToPolygonSwap() {
   console.log("🟢 Attestation ready");
 
   /* -------------------- 5. CLAIM → MINT USDC ------------------------------ */
-  const claimRes = await axios.post(
-    `${KANA_API_URL}/v1/claim`,
-    {
-      quote,
-      targetAddress: signer.address,
-      messageBytes,
-      attestationSignature,
-    },
-    { headers }
-  );
-
-  const claimIx = claimRes.data.data.claimIx;
-
-  const mintTx = await signer.sendTransaction({
-    to: claimIx.to,
-    data: claimIx.data,
-    value: BigNumber.from(claimIx.value || 0),
-  });
+  const { claimIx } =
+    await kanaClient.getClaimInstruction(
+      {
+        quote: transferQuote,
+        targetAddress: signer.address,
+        messageBytes,
+        attestationSignature,
+      },
+      evmClaimInstructionSchema
+    );
 
   console.log("⏳ Minting USDC on Polygon...");
-  await mintTx.wait();
+  await executeEvmClaim(polygon, { claimIx });
   console.log("🎉 Mint confirmed");
 
   /* -------------------- 6. TARGET SWAP (KEY FIX) -------------------------- */
 
-  if (!quote.targetSwapRoute) {
+  const { targetSwapRoute } = transferQuote;
+  if (!targetSwapRoute) {
     console.log("🏁 No target swap required");
     return;
   }
 
-  const swapQuoteRes = await axios.get(`${KANA_API_URL}/v1/swapQuote`, {
-    params: {
-      inputToken: quote.targetSwapRoute.sourceToken,
-      outputToken: quote.targetSwapRoute.targetToken,
-      chain: NetworkId.polygon,
-      amountIn: quote.targetSwapRoute.amountIn,
-      slippage: SLIPPAGE,
-    },
-    headers,
+  const { quote: swapQuote } = await kanaClient.getBestSwapQuote({
+    inputToken: targetSwapRoute.sourceToken,
+    outputToken: targetSwapRoute.targetToken,
+    chain: NetworkId.polygon,
+    amountIn: targetSwapRoute.amountIn,
+    slippage: legSlippage(TARGET_SLIPPAGE, targetSwapRoute),
   });
-
-  const swapInstructionRes = await axios.post(
-    `${KANA_API_URL}/v1/swapInstruction`,
-    {
-      quote: swapQuoteRes.data.data[0],
-      address: signer.address,
-    },
-    { headers }
-  );
+  await checkDrift("Target swap", targetSwapRoute.amountOut, swapQuote.amountOut);
+  const freshSwapQuote = await ensureFreshQuote(swapQuote);
+
+  const { instruction: swapInstruction, quote: builtSwapQuote } =
+    await kanaClient.getSwapInstruction(
+      {
+        quote: freshSwapQuote,
+        address: signer.address,
+        permit: await signSwapPermit(polygon, freshSwapQuote),
+      },
+      evmSwapInstructionSchema
+    );
 
   console.log("⏳ Swapping USDC → POL...");
-  const hash = await executeEVMInstruction(
-    signer,
-    swapInstructionRes.data.data
-  );
+  const hash = await executeEvmSwap(polygon, swapInstruction, {
+    spendAmount: maxInput(builtSwapQuote),
+  });
 
   console.log("🚀 Final swap complete:", hash);
 }
 
 aptosToPolygonSwap();
 
-function normalizeAptosPayload(payload: any) {
+function normalizeAptosPayload(payload: AptosEntryFunctionPayload) {
   return {
-    function: payload.function,
+    function: payload.function as `${string}::${string}::${string}`,
     typeArguments: payload.type_arguments ?? [],
     functionArguments: payload.arguments ?? [],
   };
@@ -257,7 +199,7 @@ function normalizeAptosPayload(payload: any) {
 async function executeAptosInstruction(
   aptos: Aptos,
   signer: Ed25519Account,
-  instruction: any
+  instruction: AptosTransferInstruction
 ): Promise<string> {
   let lastTx = "";
 
@@ -304,17 +246,6 @@ async function executeAptosInstruction(
 
 const CIRCLE_ATTESTATION_API = "https://iris-api.circle.com";
 
-const CHAIN_TO_CCTP_ID: Record<number, number> = {
-  [NetworkId.ethereum]: 0,
-  [NetworkId.Avalanche]: 1,
-  [NetworkId.Arbitrum]: 3,
-  [NetworkId.solana]: 5,
-  [NetworkId.base]: 6,
-  [NetworkId.polygon]: 7,
-  [NetworkId.sui]: 8,
-  [NetworkId.aptos]: 9,
-};
-
 async function waitForAttestation(params: {
   sourceChain: NetworkId;
   txHash: string;
@@ -322,8 +253,8 @@ async function waitForAttestation(params: {
   const { sourceChain, txHash } = params;
 
   while (true) {
-    const url = `${CIRCLE_ATTESTATION_API}/messages/${CHAIN_TO_CCTP_ID[sourceChain]}/${txHash}`;
-    const res = await fetch(url);
+    const url = `${CIRCLE_ATTESTATION_API}/messages/${cctpDomain(sourceChain)}/${txHash}`;
+    const res = await cassetteFetch(url);
     const json = await res.json();
 
     const msg = json?.messages?.[0];
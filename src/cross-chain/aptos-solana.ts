@@ -5,10 +5,18 @@
 
 import "dotenv/config";
 import { Aptos, AptosConfig, Ed25519Account, Ed25519PrivateKey, Network, PrivateKey, PrivateKeyVariants } from "@aptos-labs/ts-sdk";
-import { Connection, Keypair, PublicKey, clusterApiUrl } from "@solana/web3.js";
+import { Connection, Keypair, PublicKey } from "@solana/web3.js";
 import bs58 from "bs58";
 
+import { chainConfig } from "../config";
+import { parseAmount } from "../amount";
+import { describeCrossChainQuote } from "../crossChainQuote";
+import { getChain } from "../chains";
 import { NetworkId } from "../constant";
+import { checkDrift } from "../quoteGuard";
+import { legSlippage } from "../slippage";
+import { Slippage } from "../types";
+import { aptosTransferInstructionSchema } from "../schemas";
 
 // helpers
 import { getCrossChainQuote, buildCrossChainInstruction } from "./helpers/kana";
@@ -22,23 +30,28 @@ import { deriveSolanaATA } from "./helpers/ata";
 /* CONFIG                                                                      */
 /* -------------------------------------------------------------------------- */
 
-const SOURCE_TOKEN = "0x1::aptos_coin::AptosCoin"; // APT
-const TARGET_TOKEN = "So11111111111111111111111111111111111111112"; // SOL
-const AMOUNT_IN = "1000000"; // 0.1 APT
-const SLIPPAGE = 0.5;
+const SOURCE_TOKEN = getChain(NetworkId.aptos).nativeToken.address; // APT
+const TARGET_TOKEN = getChain(NetworkId.solana).nativeToken.address; // SOL
+const AMOUNT_IN = "0.01 APT";
+// Percent per swap leg, or "auto" to follow each leg's quoted price impact.
+const SOURCE_SLIPPAGE: Slippage = 0.5;
+const TARGET_SLIPPAGE: Slippage = 0.5;
+
+const aptosSettings = chainConfig(NetworkId.aptos, "privateKey");
+const solanaSettings = chainConfig(NetworkId.solana, "privateKey", "rpcUrl");
 
 /* -------------------------------------------------------------------------- */
 /* APTOS SETUP                                                                 */
 /* -------------------------------------------------------------------------- */
 
 const aptos = new Aptos(
-  new AptosConfig({ network: Network.MAINNET })
+  new AptosConfig({ network: Network.MAINNET, fullnode: aptosSettings.rpcUrl })
 );
 
 const aptosAccount = new Ed25519Account({
   privateKey: new Ed25519PrivateKey(
     PrivateKey.formatPrivateKey(
-      process.env.APTOS_PRIVATE_KEY!,
+      aptosSettings.privateKey,
       PrivateKeyVariants.Ed25519
     )
   ),
@@ -49,11 +62,11 @@ const aptosAccount = new Ed25519Account({
 /* -------------------------------------------------------------------------- */
 
 const solanaSigner = Keypair.fromSecretKey(
-  bs58.decode(process.env.SOLANA_PRIVATE_KEY!)
+  bs58.decode(solanaSettings.privateKey)
 );
 
 const solanaConnection = new Connection(
-  clusterApiUrl("mainnet-beta"),
+  solanaSettings.rpcUrl,
   "confirmed"
 );
 
@@ -65,19 +78,23 @@ async function aptosToSolanaSwap() {
   console.log("🚀 Starting Aptos → Solana cross-chain swap");
 
   /* -------------------- 1. FETCH CROSS-CHAIN QUOTE ----------------------- */
-  const quote = await getCrossChainQuote({
+  const amountIn = await parseAmount(NetworkId.aptos, AMOUNT_IN);
+  const request = {
     sourceToken: SOURCE_TOKEN,
     targetToken: TARGET_TOKEN,
-    amountIn: AMOUNT_IN,
+    amountIn: amountIn.amount,
     sourceChain: NetworkId.aptos,
     targetChain: NetworkId.solana,
-    slippage: SLIPPAGE,
-  });
+    sourceSlippage: SOURCE_SLIPPAGE,
+    targetSlippage: TARGET_SLIPPAGE,
+  };
+  const quote = await getCrossChainQuote(request);
 
   console.log("✅ Quote fetched");
+  console.log(await describeCrossChainQuote(quote, request));
 
   /* -------------------- 2. DERIVE SOLANA ATA ----------------------------- */
-  const usdcMint = new PublicKey(quote.targetBridgeToken);
+  const usdcMint = new PublicKey(quote.targetBridgeToken!);
 
   const ata = await deriveSolanaATA(
     usdcMint,
@@ -87,10 +104,11 @@ async function aptosToSolanaSwap() {
   console.log("🎯 Target USDC ATA:", ata.toBase58());
 
   /* -------------------- 3. BUILD SOURCE INSTRUCTION ---------------------- */
-  const instruction = await buildCrossChainInstruction({
+  const { instruction, quote: transferQuote } = await buildCrossChainInstruction({
     quote,
     sourceAddress: aptosAccount.accountAddress.toString(),
     targetAddress: ata.toBase58(),
+    schema: aptosTransferInstructionSchema,
   });
 
   console.log("✅ Source instructions built");
@@ -99,7 +117,7 @@ async function aptosToSolanaSwap() {
   const aptosTxHash = await executeAptosBurn(
     aptos,
     aptosAccount,
-    instruction.bridgePayload
+    instruction.bridgePayload!
   );
 
   console.log("🔥 Burn executed on Aptos:", aptosTxHash);
@@ -115,7 +133,7 @@ async function aptosToSolanaSwap() {
 
   /* -------------------- 6. CLAIM ON SOLANA (MINT USDC) ------------------- */
   const claimIx = await claimOnSolana({
-    quote,
+    quote: transferQuote,
     solanaAddress: solanaSigner.publicKey.toBase58(),
     messageBytes,
     attestationSignature,
@@ -130,7 +148,8 @@ async function aptosToSolanaSwap() {
   console.log("🎉 USDC minted on Solana:", mintSig);
 
   /* -------------------- 7. TARGET SWAP (USDC → SOL) ---------------------- */
-  if (!quote.targetSwapRoute) {
+  const { targetSwapRoute } = transferQuote;
+  if (!targetSwapRoute) {
     console.log("🏁 No target swap required");
     return;
   }
@@ -138,11 +157,12 @@ async function aptosToSolanaSwap() {
   console.log("🔄 Executing target swap on Solana");
 
   const swapQuote = await getSolanaSwapQuote({
-    inputToken: quote.targetSwapRoute.sourceToken,
+    inputToken: targetSwapRoute.sourceToken,
     outputToken: TARGET_TOKEN,
-    amountIn: quote.targetSwapRoute.amountIn,
-    slippage: SLIPPAGE,
+    amountIn: targetSwapRoute.amountIn,
+    slippage: legSlippage(TARGET_SLIPPAGE, targetSwapRoute),
   });
+  await checkDrift("Target swap", targetSwapRoute.amountOut, swapQuote.amountOut);
 
   const swapSig = await executeSolanaSwap({
     quote: swapQuote,
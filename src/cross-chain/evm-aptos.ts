@@ -1,9 +1,8 @@
 /**
  * Example: EVM → Aptos Cross-Chain Swap (FULL FLOW)
- * Burn → Attestation → Claim → Mint
+ * Burn → Attestation → Claim → Mint → Target swap
  */
 
-import axios from "axios";
 import "dotenv/config";
 
 import {
@@ -17,47 +16,65 @@ import {
 } from "@aptos-labs/ts-sdk";
 
 import { ethers } from "ethers";
-import { BigNumber } from "@ethersproject/bignumber";
 
-import { KANA_API_URL, NetworkId } from "../constant";
+import { chainConfig } from "../config";
+import { parseAmount } from "../amount";
+import { describeCrossChainQuote } from "../crossChainQuote";
+import { cctpDomain, ethersNetwork, getChain } from "../chains";
+import { cassetteFetch } from "../cassette";
+import { NetworkId } from "../constant";
+import { executeEvmTransfer } from "../evm/executor";
+import { ethersBackend } from "../evm/ethers";
+import { kanaClient } from "../kanaClient";
+import { executeAptosTargetSwap } from "./helpers/aptosTargetSwap";
+import {
+  AptosEntryFunctionPayload,
+  Slippage,
+} from "../types";
+import {
+  aptosClaimInstructionSchema,
+  evmTransferInstructionSchema,
+} from "../schemas";
 
 /* -------------------------------------------------------------------------- */
 /*                                   CONFIG                                   */
 /* -------------------------------------------------------------------------- */
 
-const SOURCE_TOKEN = "0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee"; // AVAX
-const TARGET_TOKEN =
-  "0xbae207659db88bea0cbead6da0ed00aac12edcdda169e591cd41c94180b46f3b"; // USDC (Aptos)
+const SOURCE_TOKEN = getChain(NetworkId.Avalanche).nativeToken.address; // AVAX
+const TARGET_TOKEN = "USDC"; // USDC (Aptos)
 
-const AMOUNT_IN = "10000000000000000"; // 0.01 AVAX
-const SLIPPAGE = 0.5;
+const AMOUNT_IN = "0.01 AVAX";
+// Percent per swap leg, or "auto" to follow each leg's quoted price impact.
+const SOURCE_SLIPPAGE: Slippage = 0.5;
+const TARGET_SLIPPAGE: Slippage = 0.5;
 
-const headers = {
-  "Content-Type": "application/json",
-  "X-API-KEY": process.env.XYRA_API_KEY!,
-};
+const avalancheSettings = chainConfig(NetworkId.Avalanche, "privateKey", "rpcUrl");
+const aptosSettings = chainConfig(NetworkId.aptos, "privateKey");
 
 /* ------------------------------- EVM -------------------------------------- */
 
 const evmProvider = new ethers.providers.JsonRpcProvider(
-  process.env.AVALANCHE_RPC_URL!
+  avalancheSettings.rpcUrl,
+  ethersNetwork(NetworkId.Avalanche)
 );
 
 const evmSigner = new ethers.Wallet(
-  process.env.EVM_PRIVATE_KEY!,
+  avalancheSettings.privateKey,
   evmProvider
 );
 
+const avalanche = ethersBackend(evmSigner);
+
 /* ------------------------------- APTOS ------------------------------------ */
 
 const aptos = new Aptos(
-  new AptosConfig({ network: Network.MAINNET })
+  new AptosConfig({ network: Network.MAINNET, fullnode: aptosSettings.rpcUrl })
 );
 
 const aptosAccount = new Ed25519Account({
   privateKey: new Ed25519PrivateKey(
     PrivateKey.formatPrivateKey(
-      process.env.APTOS_PRIVATE_KEY!,
+      aptosSettings.privateKey,
       PrivateKeyVariants.Ed25519
     )
   ),
@@ -69,41 +86,36 @@ const aptosAccount = new Ed25519Account({
 
 async function evmToAptosSwap() {
   /* ----------------------------- 1. QUOTE -------------------------------- */
-  const quoteRes = await axios.get(`${KANA_API_URL}/v1/crossChainQuote`, {
-    params: {
-      sourceToken: SOURCE_TOKEN,
-      targetToken: TARGET_TOKEN,
-      sourceChain: NetworkId.Avalanche,
-      targetChain: NetworkId.aptos,
-      amountIn: AMOUNT_IN,
-      sourceSlippage: SLIPPAGE,
-      targetSlippage: SLIPPAGE,
-    },
-    headers,
-  });
-
-  const quote = quoteRes.data.data[0];
+  const amountIn = await parseAmount(NetworkId.Avalanche, AMOUNT_IN);
+  const request = {
+    sourceToken: SOURCE_TOKEN,
+    targetToken: TARGET_TOKEN,
+    sourceChain: NetworkId.Avalanche,
+    targetChain: NetworkId.aptos,
+    amountIn: amountIn.amount,
+    sourceSlippage: SOURCE_SLIPPAGE,
+    targetSlippage: TARGET_SLIPPAGE,
+  };
+  const { quote } = await kanaClient.getBestCrossChainQuote(request);
   console.log("✅ Quote fetched");
+  console.log(await describeCrossChainQuote(quote, request));
 
   /* -------------------- 2. BUILD SOURCE INSTRUCTIONS ---------------------- */
-  const transferRes = await axios.post(
-    `${KANA_API_URL}/v1/crossChainTransfer`,
-    {
-      quote,
-      sourceAddress: await evmSigner.getAddress(),
-      targetAddress: aptosAccount.accountAddress.toString(),
-    },
-    { headers }
-  );
-
-  const instruction = transferRes.data.data;
+  const { instruction, quote: transferQuote } =
+    await kanaClient.getCrossChainTransfer(
+      {
+        quote,
+        sourceAddress: await evmSigner.getAddress(),
+        targetAddress: aptosAccount.accountAddress.toString(),
+      },
+      evmTransferInstructionSchema
+    );
   console.log("✅ Source instructions built");
 
   /* -------------------- 3. EXECUTE BURN ON EVM ---------------------------- */
-  const burnTxHash = await executeEvmInstruction(
-    evmSigner,
-    instruction
-  );
+  const burnTxHash = await executeEvmTransfer(avalanche, instruction, {
+    spendAmount: transferQuote.inAmount,
+  });
 
   console.log("🔥 Burn executed on EVM:", burnTxHash);
 
@@ -117,14 +129,17 @@ async function evmToAptosSwap() {
   console.log("🟢 CCTP attestation ready");
 
   /* -------------------- 5. CLAIM (HAPPY FLOW) ----------------------------- */
-  const claimRes = await callClaimWithRetry({
-    quote,
-    targetAddress: aptosAccount.accountAddress.toString(),
-    messageBytes,
-    attestationSignature,
-  });
+  const claimRes = await kanaClient.getClaimInstruction(
+    {
+      quote: transferQuote,
+      targetAddress: aptosAccount.accountAddress.toString(),
+      messageBytes,
+      attestationSignature,
+    },
+    aptosClaimInstructionSchema
+  );
 
-  const claimPayload = claimRes.data.data.claimPayload;
+  const claimPayload = claimRes.claimPayload;
   console.log("✅ Claim payload received");
 
   /* -------------------- 6. EXECUTE MINT ON APTOS -------------------------- */
@@ -135,6 +150,21 @@ async function evmToAptosSwap() {
   );
 
   console.log("🎉 Minted on Aptos:", mintTxHash);
+
+  /* -------------------- 7. TARGET SWAP ON APTOS --------------------------- */
+  if (!transferQuote.targetSwapRoute) {
+    console.log("🏁 No target swap required");
+    return;
+  }
+
+  console.log("⏳ Swapping into the target token on Aptos...");
+  const swapTxHash = await executeAptosTargetSwap({
+    aptos,
+    signer: aptosAccount,
+    route: transferQuote.targetSwapRoute,
+    slippage: TARGET_SLIPPAGE,
+  });
+  console.log("🚀 Final swap complete:", swapTxHash);
 }
 
 evmToAptosSwap();
@@ -143,32 +173,6 @@ evmToAptosSwap();
 /*                                  HELPERS                                   */
 /* -------------------------------------------------------------------------- */
 
-/* ----------------------- EXECUTE EVM TX ----------------------------------- */
-async function executeEvmInstruction(
-  signer: ethers.Wallet,
-  instruction: any
-): Promise<string> {
-  if (instruction.approveIX) {
-    const tx = await signer.sendTransaction({
-      to: instruction.approveIX.to,
-      data: instruction.approveIX.data,
-      value: BigNumber.from(instruction.approveIX.value),
-      gasPrice: BigNumber.from(instruction.approveIX.gasPrice),
-    });
-    await tx.wait();
-  }
-
-  const tx = await signer.sendTransaction({
-    to: instruction.transferIX.to,
-    data: instruction.transferIX.data,
-    value: BigNumber.from(instruction.transferIX.value),
-    gasPrice: BigNumber.from(instruction.transferIX.gasPrice),
-  });
-
-  const receipt = await tx.wait();
-  return receipt.transactionHash;
-}
-
 /* ----------------------- EXECUTE APTOS TX --------------------------------- */
 function formatFunctionName(
   fn: string
@@ -179,11 +183,7 @@ function formatFunctionName(
 async function executeAptosInstruction(
   aptos: Aptos,
   signer: Ed25519Account,
-  payload: {
-    function: string;
-    type_arguments: string[];
-    arguments: any[];
-  }
+  payload: AptosEntryFunctionPayload
 ): Promise<string> {
   const tx = await aptos.transaction.build.simple({
     sender: signer.accountAddress.toString(),
@@ -211,45 +211,10 @@ async function executeAptosInstruction(
   return res.hash;
 }
 
-/* -------------------- RATE-LIMIT SAFE CLAIM CALL --------------------------- */
-async function callClaimWithRetry(body: any) {
-  while (true) {
-    try {
-      return await axios.post(
-        `${KANA_API_URL}/v1/claim`,
-        body,
-        { headers }
-      );
-    } catch (err: any) {
-      if (err?.response?.status === 429) {
-        const retryAfter = Number(
-          err.response.headers["retry-after"] ?? 10
-        );
-        console.log(
-          `⏳ Claim rate-limited. Retrying in ${retryAfter}s...`
-        );
-        await new Promise((r) => setTimeout(r, retryAfter * 1000));
-        continue;
-      }
-      throw err;
-    }
-  }
-}
-
 /* -------------------- CCTP ATTESTATION POLLING ----------------------------- */
 
 const CIRCLE_ATTESTATION_API = "https://iris-api.circle.com";
 
-const CHAIN_TO_CCTP_ID: Record<number, number> = {
-  [NetworkId.ethereum]: 0,
-  [NetworkId.Avalanche]: 1,
-  [NetworkId.Arbitrum]: 3,
-  [NetworkId.solana]: 5,
-  [NetworkId.base]: 6,
-  [NetworkId.polygon]: 7,
-  [NetworkId.aptos]: 9,
-};
-
 async function waitForAttestation(params: {
   sourceChain: NetworkId;
   txHash: string;
@@ -260,8 +225,8 @@ async function waitForAttestation(params: {
   const maxRetries = 400;
 
   for (let i = 0; i < maxRetries; i++) {
-    const url = `${CIRCLE_ATTESTATION_API}/messages/${CHAIN_TO_CCTP_ID[sourceChain]}/${txHash}`;
-    const res = await fetch(url);
+    const url = `${CIRCLE_ATTESTATION_API}/messages/${cctpDomain(sourceChain)}/${txHash}`;
+    const res = await cassetteFetch(url);
     const json = await res.json();
 
     const msg = json?.messages?.[0];
@@ -3,7 +3,6 @@
  * Approve → Burn → Attestation → Claim → Mint
  */
 
-import axios from "axios";
 import "dotenv/config";
 
 import { ethers } from "ethers";
@@ -11,51 +10,66 @@ import {
   Connection,
   Keypair,
   VersionedTransaction,
-  clusterApiUrl,
 } from "@solana/web3.js";
 import bs58 from "bs58";
 
-import { KANA_API_URL, NetworkId } from "../constant";
+import { chainConfig } from "../config";
+import { parseAmount } from "../amount";
+import { describeCrossChainQuote } from "../crossChainQuote";
+import { cctpDomain, ethersNetwork } from "../chains";
+import { cassetteFetch } from "../cassette";
+import { NetworkId } from "../constant";
+import { executeEvmTransfer } from "../evm/executor";
+import { ethersBackend } from "../evm/ethers";
+import { kanaClient } from "../kanaClient";
+import { Slippage } from "../types";
+import {
+  evmTransferInstructionSchema,
+  solanaClaimInstructionSchema,
+} from "../schemas";
 
 /* -------------------------------------------------------------------------- */
 /*                                   CONFIG                                   */
 /* -------------------------------------------------------------------------- */
 
 // Avalanche USDC
-const SOURCE_TOKEN = "0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E";
+const SOURCE_TOKEN = "USDC";
 
 // Solana USDC
-const TARGET_TOKEN = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+const TARGET_TOKEN = "USDC";
 
-// 0.1 USDC (USDC = 6 decimals)
-const AMOUNT_IN = "100000";
-const SLIPPAGE = 0.5;
+// 0.1 USDC
+const AMOUNT_IN = { token: SOURCE_TOKEN, decimal: "0.1" };
+// Percent per swap leg, or "auto" to follow each leg's quoted price impact.
+const SOURCE_SLIPPAGE: Slippage = 0.5;
+const TARGET_SLIPPAGE: Slippage = 0.5;
 
-const headers = {
-  "Content-Type": "application/json",
-  "X-API-KEY": process.env.XYRA_API_KEY!,
-};
+const avalancheSettings = chainConfig(NetworkId.Avalanche, "privateKey", "rpcUrl");
+const solanaSettings = chainConfig(NetworkId.solana, "privateKey", "rpcUrl");
 
 /* --------------------------- AVALANCHE SETUP ------------------------------ */
 
 const avaxProvider = new ethers.providers.JsonRpcProvider(
-  process.env.AVALANCHE_RPC_URL!
+  avalancheSettings.rpcUrl,
+  ethersNetwork(NetworkId.Avalanche)
 );
 
 const avaxSigner = new ethers.Wallet(
-  process.env.EVM_PRIVATE_KEY!,
+  avalancheSettings.privateKey,
   avaxProvider
 );
 
+const avalanche = ethersBackend(avaxSigner);
+
 /* ----------------------------- SOLANA SETUP ------------------------------- */
 
 const solanaConnection = new Connection(
-  clusterApiUrl("mainnet-beta"),
+  solanaSettings.rpcUrl,
   "confirmed"
 );
 
 const solanaSigner = Keypair.fromSecretKey(
-  bs58.decode(process.env.SOLANA_PRIVATE_KEY!)
+  bs58.decode(solanaSettings.privateKey)
 );
 
 /* -------------------------------------------------------------------------- */
@@ -64,57 +78,37 @@ const solanaSigner = Keypair.fromSecretKey(
 
 async function avalancheToSolanaSwap() {
   /* --------------------------- 1. QUOTE ---------------------------------- */
-  const quoteRes = await axios.get(`${KANA_API_URL}/v1/crossChainQuote`, {
-    params: {
-      sourceToken: SOURCE_TOKEN,
-      targetToken: TARGET_TOKEN,
-      sourceChain: NetworkId.Avalanche,
-      targetChain: NetworkId.solana,
-      amountIn: AMOUNT_IN,
-      sourceSlippage: SLIPPAGE,
-      targetSlippage: SLIPPAGE,
-    },
-    headers,
-  });
-
-  const quote = quoteRes.data.data[0];
+  const amountIn = await parseAmount(NetworkId.Avalanche, AMOUNT_IN);
+  const request = {
+    sourceToken: SOURCE_TOKEN,
+    targetToken: TARGET_TOKEN,
+    sourceChain: NetworkId.Avalanche,
+    targetChain: NetworkId.solana,
+    amountIn: amountIn.amount,
+    sourceSlippage: SOURCE_SLIPPAGE,
+    targetSlippage: TARGET_SLIPPAGE,
+  };
+  const { quote } = await kanaClient.getBestCrossChainQuote(request);
   console.log("✅ Quote fetched");
+  console.log(await describeCrossChainQuote(quote, request));
 
   /* ------------------ 2. BUILD INSTRUCTIONS ------------------------------- */
-  const transferRes = await axios.post(
-    `${KANA_API_URL}/v1/crossChainTransfer`,
-    {
-      quote,
-      sourceAddress: await avaxSigner.getAddress(),
-      targetAddress: solanaSigner.publicKey.toBase58(),
-    },
-    { headers }
-  );
-
-  const instruction = transferRes.data.data;
+  const { instruction, quote: transferQuote } =
+    await kanaClient.getCrossChainTransfer(
+      {
+        quote,
+        sourceAddress: await avaxSigner.getAddress(),
+        targetAddress: solanaSigner.publicKey.toBase58(),
+      },
+      evmTransferInstructionSchema
+    );
   console.log("✅ Source instructions built");
 
-  /* ------------------ 3a. APPROVE USDC ------------------------------------ */
-  if (instruction.approveIX) {
-    const approveTx = await avaxSigner.sendTransaction({
-      to: instruction.approveIX.to,
-      data: instruction.approveIX.data,
-      value: instruction.approveIX.value,
-    });
-    await approveTx.wait();
-    console.log("✅ USDC allowance approved");
-  }
-
-  /* ------------------ 3b. BURN (CCTP) ------------------------------------- */
-  const burnTx = await avaxSigner.sendTransaction({
-    to: instruction.transferIX.to,
-    data: instruction.transferIX.data,
-    value: instruction.transferIX.value,
+  /* ------------------ 3. APPROVE USDC + BURN (CCTP) ---------------------- */
+  const burnHash = await executeEvmTransfer(avalanche, instruction, {
+    spendAmount: transferQuote.inAmount,
   });
 
-  const burnReceipt = await burnTx.wait();
-  const burnHash = burnReceipt.transactionHash;
-
   console.log("🔥 Burn executed on Avalanche:", burnHash);
 
   /* ------------------ 4. WAIT FOR ATTESTATION ----------------------------- */
@@ -127,18 +121,16 @@ async function avalancheToSolanaSwap() {
   console.log("🟢 CCTP attestation ready");
 
   /* ------------------ 5. CLAIM (SOLANA) ----------------------------------- */
-  const claimRes = await axios.post(
-    `${KANA_API_URL}/v1/claim`,
-    {
-      quote,
-      targetAddress: solanaSigner.publicKey.toBase58(),
-      messageBytes,
-      attestationSignature,
-    },
-    { headers }
-  );
-
-  const claimIx = claimRes.data.data.claimIx;
+  const { claimIx } =
+    await kanaClient.getClaimInstruction(
+      {
+        quote: transferQuote,
+        targetAddress: solanaSigner.publicKey.toBase58(),
+        messageBytes,
+        attestationSignature,
+      },
+      solanaClaimInstructionSchema
+    );
   console.log("✅ Claim instruction received");
 
   /* ------------------ 6. EXECUTE ON SOLANA -------------------------------- */
@@ -188,15 +180,6 @@ async function executeSolanaTx(
 
 const CIRCLE_ATTESTATION_API = "https://iris-api.circle.com";
 
-const CHAIN_TO_CCTP_ID: Record<number, number> = {
-  [NetworkId.ethereum]: 0,
-  [NetworkId.Avalanche]: 1,
-  [NetworkId.Arbitrum]: 3,
-  [NetworkId.solana]: 5,
-  [NetworkId.base]: 6,
-  [NetworkId.polygon]: 7,
-};
-
 async function waitForAttestation(params: {
   sourceChain: NetworkId;
   txHash: string;
@@ -204,8 +187,8 @@ async function waitForAttestation(params: {
   const { sourceChain, txHash } = params;
 
   while (true) {
-    const url = `${CIRCLE_ATTESTATION_API}/messages/${CHAIN_TO_CCTP_ID[sourceChain]}/${txHash}`;
-    const res = await fetch(url);
+    const url = `${CIRCLE_ATTESTATION_API}/messages/${cctpDomain(sourceChain)}/${txHash}`;
+    const res = await cassetteFetch(url);
     const json = await res.json();
 
     const msg = json?.messages?.[0];  
@@ -1,6 +1,10 @@
-import axios from "axios";
 import { Aptos, Ed25519Account } from "@aptos-labs/ts-sdk";
-import { KANA_API_URL } from "../../constant";
+import { NetworkId } from "../../constant";
+import { kanaClient } from "../../kanaClient";
+import { checkDrift } from "../../quoteGuard";
+import { aptosSwapInstructionSchema } from "../../schemas";
+import { legSlippage } from "../../slippage";
+import { AptosEntryFunctionPayload, Slippage, SwapRoute } from "../../types";
 
 /* ------------------ INTERNAL ------------------ */
 
@@ -12,48 +16,37 @@ function formatFunctionName(
 
 /* ------------------ APTOS TARGET SWAP ------------------ */
 
+/**
+ * Swaps the bridged token into the cross-chain quote's target token on Aptos,
+ * re-quoting `route` at the target leg's slippage and checking the fresh
+ * output against the one the cross-chain quote promised.
+ */
 export async function executeAptosTargetSwap(params: {
   aptos: Aptos;
   signer: Ed25519Account;
-  route: {
-    sourceToken: string;
-    targetToken: string;
-    amountIn: string;
-    chainId: number;
-  };
+  route: SwapRoute;
+  slippage: Slippage;
 }) {
   /* 1. Get swap quote */
-  const quoteRes = await axios.get(`${KANA_API_URL}/v1/swapQuote`, {
-    params: {
-      inputToken: params.route.sourceToken,
-      outputToken: params.route.targetToken,
-      chain: params.route.chainId,
-      amountIn: params.route.amountIn,
-    },
-    headers: {
-      "Content-Type": "application/json",
-      "X-API-KEY": process.env.XYRA_API_KEY!,
-    },
+  const { quote: swapQuote } = await kanaClient.getBestSwapQuote({
+    inputToken: params.route.sourceToken,
+    outputToken: params.route.targetToken,
+    chain: NetworkId.aptos,
+    amountIn: params.route.amountIn,
+    slippage: legSlippage(params.slippage, params.route),
   });
-
-  const swapQuote = quoteRes.data.data[0];
+  await checkDrift("Target swap", params.route.amountOut, swapQuote.amountOut);
 
   /* 2. Get swap instruction */
-  const ixRes = await axios.post(
-    `${KANA_API_URL}/v1/swapInstruction`,
+  const { instruction: ixRes } = await kanaClient.getSwapInstruction(
     {
       quote: swapQuote,
       address: params.signer.accountAddress.toString(),
     },
-    {
-      headers: {
-        "Content-Type": "application/json",
-        "X-API-KEY": process.env.XYRA_API_KEY!,
-      },
-    }
+    aptosSwapInstructionSchema
   );
 
-  const payload = ixRes.data.data.swapPayload;
+  const payload = ixRes.swapPayload ?? (ixRes as AptosEntryFunctionPayload);
 
   /* 3. Execute on Aptos */
   const tx = await params.aptos.transaction.build.simple({
@@ -2,29 +2,14 @@
  * Fetch Circle CCTP attestation for a source-chain transaction.
  */
 
-import { NetworkId } from "../../constant";
+import { cctpDomain } from "../../chains";
+import { cassetteFetch } from "../../cassette";
+import { BridgeId, NetworkId } from "../../constant";
 
-export enum BridgeId {
-  native = 0,
-  wormhole = 1,
-  layerzero = 2,
-  cctp = 3,
-  cctpV2 = 4,
-}
+export { BridgeId };
 
 const CIRCLE_ATTESTATION_API = "https://iris-api.circle.com";
 
-const KANA_CHAIN_TO_CCTP_DOMAIN: Record<number, number> = {
-  [NetworkId.ethereum]: 0,
-  [NetworkId.Avalanche]: 1,
-  [NetworkId.Arbitrum]: 3,
-  [NetworkId.solana]: 5,
-  [NetworkId.base]: 6,
-  [NetworkId.polygon]: 7,
-  [NetworkId.sui]: 8,
-  [NetworkId.aptos]: 9,
-};
-
 export async function fetchAttestation(params: {
   chainId: NetworkId;
   txHash: string;
@@ -45,10 +30,10 @@ export async function fetchAttestation(params: {
   while (retries < maxRetries) {
     const url =
       bridge === BridgeId.cctp
-        ? `${CIRCLE_ATTESTATION_API}/messages/${KANA_CHAIN_TO_CCTP_DOMAIN[chainId]}/${txHash}`
-        : `${CIRCLE_ATTESTATION_API}/v2/messages/${KANA_CHAIN_TO_CCTP_DOMAIN[chainId]}?transactionHash=${txHash}`;
+        ? `${CIRCLE_ATTESTATION_API}/messages/${cctpDomain(chainId)}/${txHash}`
+        : `${CIRCLE_ATTESTATION_API}/v2/messages/${cctpDomain(chainId)}?transactionHash=${txHash}`;
 
-    const res = await fetch(url);
+    const res = await cassetteFetch(url);
     if (!res.ok) throw new Error("Circle API error");
 
     const data = await res.json();
@@ -1,10 +1,7 @@
-import axios from "axios";
-import { KANA_API_URL, NetworkId } from "../../constant";
-
-const headers = {
-  "Content-Type": "application/json",
-  "X-API-KEY": process.env.XYRA_API_KEY!,
-};
+import { NetworkId } from "../../constant";
+import { kanaClient } from "../../kanaClient";
+import { BuiltInstruction, CrossChainQuote, CrossChainTransferInstruction, Slippage } from "../../types";
+import { Schema, solanaClaimInstructionSchema } from "../../schemas";
 
 /* ------------------ CROSS-CHAIN QUOTE ------------------ */
 
@@ -14,62 +11,60 @@ export async function getCrossChainQuote(params: {
   amountIn: string;
   sourceChain: NetworkId;
   targetChain: NetworkId;
-  slippage: number;
-}) {
-  const res = await axios.get(`${KANA_API_URL}/v1/crossChainQuote`, {
-    params: {
-      sourceToken: params.sourceToken,
-      targetToken: params.targetToken,
-      sourceChain: params.sourceChain,
-      targetChain: params.targetChain,
-      amountIn: params.amountIn,
-      sourceSlippage: params.slippage,
-      targetSlippage: params.slippage,
-    },
-    headers,
+  sourceSlippage: Slippage;
+  targetSlippage: Slippage;
+}): Promise<CrossChainQuote> {
+  const { quote } = await kanaClient.getBestCrossChainQuote({
+    sourceToken: params.sourceToken,
+    targetToken: params.targetToken,
+    sourceChain: params.sourceChain,
+    targetChain: params.targetChain,
+    amountIn: params.amountIn,
+    sourceSlippage: params.sourceSlippage,
+    targetSlippage: params.targetSlippage,
   });
 
-  return res.data.data[0];
+  return quote;
 }
 
 /* ------------------ BUILD CROSS-CHAIN TRANSFER ------------------ */
 
-export async function buildCrossChainInstruction(params: {
-  quote: any;
+/** The claim and target swap must use the returned quote; the transfer may have re-quoted. */
+export async function buildCrossChainInstruction<
+  T extends CrossChainTransferInstruction = CrossChainTransferInstruction
+>(params: {
+  quote: CrossChainQuote;
   sourceAddress: string;
   targetAddress: string;
-}) {
-  const res = await axios.post(
-    `${KANA_API_URL}/v1/crossChainTransfer`,
+  schema: Schema<T>;
+}): Promise<BuiltInstruction<T, CrossChainQuote>> {
+  return kanaClient.getCrossChainTransfer(
     {
       quote: params.quote,
       sourceAddress: params.sourceAddress,
       targetAddress: params.targetAddress,
     },
-    { headers }
+    params.schema
   );
-
-  return res.data.data;
 }
 
 /* ------------------ CLAIM ON TARGET CHAIN ------------------ */
 
 export async function claimOnSolana(params: {
-  quote: any;
+  quote: CrossChainQuote;
   solanaAddress: string;
   messageBytes: string;
   attestationSignature: string;
-}) {
-  const res = await axios.post(
-    `${KANA_API_URL}/v1/claim`,
+}): Promise<string> {
+  const res = await kanaClient.getClaimInstruction(
     {
       quote: params.quote,
       targetAddress: params.solanaAddress,
       messageBytes: params.messageBytes,
       attestationSignature: params.attestationSignature,
     },
-    { headers }
+    solanaClaimInstructionSchema
   );
 
-  return res.data.data.claimIx;
+  return res.claimIx;
 }
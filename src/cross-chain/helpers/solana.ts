@@ -1,15 +1,12 @@
-import axios from "axios";
 import {
   Connection,
   Keypair,
   VersionedTransaction,
 } from "@solana/web3.js";
-import { KANA_API_URL, NetworkId } from "../../constant";
-
-const headers = {
-  "Content-Type": "application/json",
-  "X-API-KEY": process.env.XYRA_API_KEY!,
-};
+import { NetworkId } from "../../constant";
+import { kanaClient } from "../../kanaClient";
+import { SwapQuote } from "../../types";
+import { solanaSwapInstructionSchema } from "../../schemas";
 
 /* ------------------ EXECUTE SOLANA TX ------------------ */
 
@@ -42,38 +39,34 @@ export async function getSolanaSwapQuote(params: {
   outputToken: string;
   amountIn: string;
   slippage: number;
-}) {
-  const res = await axios.get(`${KANA_API_URL}/v1/swapQuote`, {
-    params: {
-      inputToken: params.inputToken,
-      outputToken: params.outputToken,
-      chain: NetworkId.solana,
-      amountIn: params.amountIn,
-      slippage: params.slippage,
-    },
-    headers,
+}): Promise<SwapQuote> {
+  const { quote } = await kanaClient.getBestSwapQuote({
+    inputToken: params.inputToken,
+    outputToken: params.outputToken,
+    chain: NetworkId.solana,
+    amountIn: params.amountIn,
+    slippage: params.slippage,
   });
 
-  return res.data.data[0];
+  return quote;
 }
 
 /* ------------------ EXECUTE SOLANA SWAP ------------------ */
 
 export async function executeSolanaSwap(params: {
-  quote: any;
+  quote: SwapQuote;
   connection: Connection;
   signer: Keypair;
 }) {
-  const res = await axios.post(
-    `${KANA_API_URL}/v1/swapInstruction`,
+  const { instruction: res } = await kanaClient.getSwapInstruction(
     {
       quote: params.quote,
       address: params.signer.publicKey.toBase58(),
     },
-    { headers }
+    solanaSwapInstructionSchema
   );
 
-  const base64Tx = res.data?.data?.swapTransaction;
+  const base64Tx = res?.swapTransaction;
   if (!base64Tx) {
     throw new Error("Missing swapTransaction from Kana");
   }
@@ -1,38 +1,18 @@
 /**
  * Redeem flow: Aptos → EVM (Ethereum)
  */
-import axios from "axios";
 import "dotenv/config";
 import { ethers } from "ethers";
-
-const KANA_API_URL = "https://ag.kanalabs.io";
+import { chainConfig } from "../../config";
+import { cctpDomain, ethersNetwork } from "../../chains";
+import { cassetteFetch } from "../../cassette";
+import { BridgeId, NetworkId } from "../../constant";
+import { executeEvmClaim } from "../../evm/executor";
+import { ethersBackend } from "../../evm/ethers";
+import { kanaClient } from "../../kanaClient";
+import { evmClaimInstructionSchema } from "../../schemas";
 
 const CIRCLE_ATTESTATION_API = "https://iris-api.circle.com";
-const BRIDGE_ID_CCTP = 3;
-
-enum NetworkId {
-  solana = 1,
-  aptos = 2,
-  polygon = 3,
-  bsc = 4,
-  sui = 5,
-  ethereum = 6,
-  base = 7,
-  zkSync = 9,
-  Avalanche = 10,
-  Arbitrum = 11,
-}
-
-const CCTP_CHAIN_MAP: Record<number, number> = {
-  [NetworkId.ethereum]: 0,
-  [NetworkId.Avalanche]: 1,
-  [NetworkId.Arbitrum]: 3,
-  [NetworkId.solana]: 5,
-  [NetworkId.base]: 6,
-  [NetworkId.polygon]: 7,
-  [NetworkId.sui]: 8,
-  [NetworkId.aptos]: 9,
-};
 
 /* -------------------------------------------------------------------------- */
 /* CONFIG                                                                     */
@@ -41,17 +21,10 @@ const CCTP_CHAIN_MAP: Record<number, number> = {
 const APTOS_BURN_TX_HASH = process.env.APTOS_BURN_TX_HASH!;
 if (!APTOS_BURN_TX_HASH) throw new Error("Missing APTOS_BURN_TX_HASH");
 
-if (!process.env.EVM_PRIVATE_KEY) throw new Error("Missing EVM_PRIVATE_KEY");
-
-const headers = {
-  "Content-Type": "application/json",
-  "X-API-KEY": process.env.XYRA_API_KEY!,
-};
+const ethereumSettings = chainConfig(NetworkId.ethereum, "privateKey", "rpcUrl");
 
-const ETHEREUM_RPC_URL = "https://ethereum.blockpi.network/v1/rpc/df30afe448c2c21888f1c276340c62f45890ed8c";
-
-const evmProvider = new ethers.providers.JsonRpcProvider(ETHEREUM_RPC_URL);
-const evmSigner = new ethers.Wallet(process.env.EVM_PRIVATE_KEY!, evmProvider);
+const evmProvider = new ethers.providers.JsonRpcProvider(ethereumSettings.rpcUrl, ethersNetwork(NetworkId.ethereum));
+const evmSigner = new ethers.Wallet(ethereumSettings.privateKey, evmProvider);
 
 /* -------------------------------------------------------------------------- */
 /* MAIN FLOW                                                                  */
@@ -71,43 +44,25 @@ async function redeemAptosToEvm() {
   // 2. Build Redeem Transaction
   console.log("🛠️ Building redeem transaction...");
   try {
-    const res = await axios.post(`${KANA_API_URL}/v1/redeem`, {
-      sourceChainID: NetworkId.aptos,
-      targetChainID: NetworkId.ethereum, // Target is Ethereum (Chain 6)
-      bridgeID: BRIDGE_ID_CCTP,
-      targetAddress: await evmSigner.getAddress(),
-      messageBytes,
-      attestationSignature,
-    }, { headers });
-
-    const dataBlock = res.data.data?.[0] || res.data.data || res.data;
-    if (!dataBlock) throw new Error("API returned empty data.");
-
-    const txPayload = dataBlock.claimIx || dataBlock.transaction || dataBlock.tx || dataBlock.payload || dataBlock.redeemIx;
-    
-    if (!txPayload) {
-        throw new Error(`Missing transaction payload. Keys found: ${Object.keys(dataBlock).join(", ")}`);
-    }
+    const { claimIx } = await kanaClient.getRedeemInstruction(
+      {
+        sourceChainID: NetworkId.aptos,
+        targetChainID: NetworkId.ethereum, // Target is Ethereum (Chain 6)
+        bridgeID: BridgeId.cctp,
+        targetAddress: await evmSigner.getAddress(),
+        messageBytes,
+        attestationSignature,
+      },
+      evmClaimInstructionSchema
+    );
 
     console.log("✅ Redeem instruction received");
 
     // 3. Execute on EVM
     console.log("📤 Submitting to EVM...");
-    
-    // Safety check: ensure txPayload has required fields
-    if (!txPayload.to || !txPayload.data) {
-        throw new Error("Invalid transaction payload: missing 'to' or 'data'");
-    }
-
-    const txResponse = await evmSigner.sendTransaction({
-      to: txPayload.to,
-      data: txPayload.data,
-      value: txPayload.value ? ethers.BigNumber.from(txPayload.value) : 0,
-    });
 
-    console.log("⏳ Transaction sent:", txResponse.hash);
-    const receipt = await txResponse.wait();
-    console.log("🎉 Success! Redeemed on EVM. Block:", receipt.blockNumber);
+    const hash = await executeEvmClaim(ethersBackend(evmSigner), { claimIx });
+    console.log("🎉 Success! Redeemed on EVM:", hash);
 
   } catch (error: any) {
     logError(error);
@@ -126,8 +81,8 @@ async function waitForAttestation(chain: number, txHash: string) {
 
   while (retries < maxRetries) {
     try {
-      const url = `${CIRCLE_ATTESTATION_API}/messages/${CCTP_CHAIN_MAP[chain]}/${txHash}`;
-      const res = await fetch(url);
+      const url = `${CIRCLE_ATTESTATION_API}/messages/${cctpDomain(chain)}/${txHash}`;
+      const res = await cassetteFetch(url);
       if (res.ok) {
         const json = await res.json();
         const msg = json?.messages?.[0];
@@ -3,48 +3,25 @@
  * Burn (already done) → Attestation → Redeem → Mint on Solana
  */
 
-import axios from "axios";
 import "dotenv/config";
 
 import {
   Connection,
   Keypair,
   VersionedTransaction,
-  clusterApiUrl,
 } from "@solana/web3.js";
 
 import bs58 from "bs58";
 
-const KANA_API_URL = "https://ag.kanalabs.io";
-
-enum NetworkId {
-  solana = 1,
-  aptos = 2,
-  polygon = 3,
-  bsc = 4,
-  sui = 5,
-  ethereum = 6,
-  base = 7,
-  zkSync = 9,
-  Avalanche = 10,
-  Arbitrum = 11,
-}
-
-const BRIDGE_ID_CCTP = 3; 
+import { chainConfig } from "../../config";
+import { cctpDomain, explorerTxUrl } from "../../chains";
+import { cassetteFetch } from "../../cassette";
+import { BridgeId, NetworkId } from "../../constant";
+import { kanaClient } from "../../kanaClient";
+import { solanaClaimInstructionSchema } from "../../schemas";
 
 const CIRCLE_ATTESTATION_API = "https://iris-api.circle.com";
 
-const CCTP_CHAIN_MAP: Record<number, number> = {
-  [NetworkId.ethereum]: 0,
-  [NetworkId.Avalanche]: 1,
-  [NetworkId.Arbitrum]: 3,
-  [NetworkId.solana]: 5,
-  [NetworkId.base]: 6,
-  [NetworkId.polygon]: 7,
-  [NetworkId.sui]: 8,
-  [NetworkId.aptos]: 9, 
-};
-
 /* -------------------------------------------------------------------------- */
 /* CONFIG                                   */
 /* -------------------------------------------------------------------------- */
@@ -55,26 +32,19 @@ if (!APTOS_BURN_TX_HASH) {
   throw new Error("❌ Missing process.env.APTOS_BURN_TX_HASH");
 }
 
-if (!process.env.SOLANA_PRIVATE_KEY) {
-  throw new Error("❌ Missing process.env.SOLANA_PRIVATE_KEY");
-}
-
-const headers = {
-  "Content-Type": "application/json",
-  "X-API-KEY": process.env.XYRA_API_KEY!,
-};
+const solanaSettings = chainConfig(NetworkId.solana, "privateKey", "rpcUrl");
 
 /* -------------------------------------------------------------------------- */
 /* SOLANA SETUP                                */
 /* -------------------------------------------------------------------------- */
 
 const solanaConnection = new Connection(
-  process.env.SOLANA_RPC_URL || clusterApiUrl("mainnet-beta"),
+  solanaSettings.rpcUrl,
   "confirmed"
 );
 
 const solanaSigner = Keypair.fromSecretKey(
-  bs58.decode(process.env.SOLANA_PRIVATE_KEY!)
+  bs58.decode(solanaSettings.privateKey)
 );
 
 /* -------------------------------------------------------------------------- */
@@ -101,32 +71,18 @@ async function redeemAptosToSolana() {
   console.log("🛠️ Building redeem transaction via API...");
   
   try {
-    const redeemRes = await axios.post(
-      `${KANA_API_URL}/v1/redeem`,
+    const { claimIx: redeemTxBase64 } = await kanaClient.getRedeemInstruction(
       {
         sourceChainID: NetworkId.aptos,
         targetChainID: NetworkId.solana,
-        bridgeID: BRIDGE_ID_CCTP, 
+        bridgeID: BridgeId.cctp,
         targetAddress: solanaSigner.publicKey.toBase58(),
         messageBytes,
         attestationSignature,
       },
-      { headers }
+      solanaClaimInstructionSchema
     );
 
-    const responseData = redeemRes.data;
-    const dataBlock = responseData.data?.[0] || responseData.data || responseData;
-
-    if (!dataBlock) {
-       throw new Error("API returned empty data block.");
-    }
-
-    const redeemTxBase64 = dataBlock.claimIx || dataBlock.redeemIx || dataBlock.transaction || dataBlock.tx || dataBlock.payload;
-    
-    if (!redeemTxBase64) {
-      throw new Error(`Could not find transaction string. Keys found: ${Object.keys(dataBlock).join(", ")}`);
-    }
-
     console.log("✅ Redeem transaction found");
 
     /* ---------------------- 3. EXECUTE ON SOLANA --------------------------- */
@@ -139,7 +95,7 @@ async function redeemAptosToSolana() {
     );
 
     console.log("🎉 Success! USDC minted on Solana.");
-    console.log(`🔗 Explorer: https://solscan.io/tx/${sig}`);
+    console.log(`🔗 Explorer: ${explorerTxUrl(NetworkId.solana, sig)}`);
 
   } catch (error: any) {
     if (error.response) {
@@ -204,8 +160,8 @@ async function waitForAttestation(
 
   while (retries < maxRetries) {
     try {
-      const url = `${CIRCLE_ATTESTATION_API}/messages/${CCTP_CHAIN_MAP[chain]}/${txHash}`;
-      const res = await fetch(url);
+      const url = `${CIRCLE_ATTESTATION_API}/messages/${cctpDomain(chain)}/${txHash}`;
+      const res = await cassetteFetch(url);
       
       if (res.ok) {
         const json = await res.json();
@@ -1,38 +1,16 @@
 /**
  * Redeem flow: EVM → Aptos
  */
-import axios from "axios";
 import "dotenv/config";
 import { Aptos, AptosConfig, Network, Ed25519Account, Ed25519PrivateKey, PrivateKey, PrivateKeyVariants } from "@aptos-labs/ts-sdk";
-
-const KANA_API_URL = "https://ag.kanalabs.io";
+import { chainConfig } from "../../config";
+import { cctpDomain } from "../../chains";
+import { cassetteFetch } from "../../cassette";
+import { BridgeId, NetworkId } from "../../constant";
+import { kanaClient } from "../../kanaClient";
+import { aptosClaimInstructionSchema } from "../../schemas";
 
 const CIRCLE_ATTESTATION_API = "https://iris-api.circle.com";
-const BRIDGE_ID_CCTP = 3;
-
-// Kana NetworkId Enum
-enum NetworkId {
-  solana = 1,
-  aptos = 2,
-  polygon = 3,
-  bsc = 4,
-  sui = 5,
-  ethereum = 6,
-  base = 7,
-  zkSync = 9,
-  Avalanche = 10,
-  Arbitrum = 11,
-}
-
-// CCTP Domain Map
-const CCTP_CHAIN_MAP: Record<number, number> = {
-  [NetworkId.ethereum]: 0,
-  [NetworkId.Avalanche]: 1,
-  [NetworkId.solana]: 5,
-  [NetworkId.aptos]: 9,
-};
-
-const headers = { "Content-Type": "application/json", "X-API-KEY": process.env.XYRA_API_KEY! };
 
 /* -------------------------------------------------------------------------- */
 /* CONFIG                                                                     */
@@ -41,10 +19,11 @@ const EVM_BURN_TX_HASH = process.env.EVM_BURN_TX_HASH!;
 if (!EVM_BURN_TX_HASH) throw new Error("Missing EVM_BURN_TX_HASH");
 
 // Aptos Setup
-const aptosConfig = new AptosConfig({ network: Network.MAINNET });
+const aptosSettings = chainConfig(NetworkId.aptos, "privateKey");
+const aptosConfig = new AptosConfig({ network: Network.MAINNET, fullnode: aptosSettings.rpcUrl });
 const aptos = new Aptos(aptosConfig);
 const aptosAccount = new Ed25519Account({
-  privateKey: new Ed25519PrivateKey(PrivateKey.formatPrivateKey(process.env.APTOS_PRIVATE_KEY!, PrivateKeyVariants.Ed25519)),
+  privateKey: new Ed25519PrivateKey(PrivateKey.formatPrivateKey(aptosSettings.privateKey, PrivateKeyVariants.Ed25519)),
 });
 
 /* -------------------------------------------------------------------------- */
@@ -64,25 +43,17 @@ async function redeemEvmToAptos() {
 
   // 2. Build Redeem
   try {
-    const res = await axios.post(`${KANA_API_URL}/v1/redeem`, {
-      sourceChainID: NetworkId.ethereum, // Match source
-      targetChainID: NetworkId.aptos,
-      bridgeID: BRIDGE_ID_CCTP,
-      targetAddress: aptosAccount.accountAddress.toString(),
-      messageBytes,
-      attestationSignature,
-    }, { headers });
-
-    const responseData = res.data;
-    const dataBlock = responseData.data?.[0] || responseData.data || responseData;
-
-    if (!dataBlock) throw new Error("API returned empty data.");
-
-    const payload = dataBlock.claimPayload || dataBlock.claimIx || dataBlock.redeemIx || dataBlock.payload || dataBlock.transaction;
-    
-    if (!payload) {
-        throw new Error(`Missing Aptos payload. Available keys: ${Object.keys(dataBlock).join(", ")}`);
-    }
+    const { claimPayload: payload } = await kanaClient.getRedeemInstruction(
+      {
+        sourceChainID: NetworkId.ethereum, // Match source
+        targetChainID: NetworkId.aptos,
+        bridgeID: BridgeId.cctp,
+        targetAddress: aptosAccount.accountAddress.toString(),
+        messageBytes,
+        attestationSignature,
+      },
+      aptosClaimInstructionSchema
+    );
 
     console.log("✅ Redeem instruction received");
 
@@ -91,7 +62,7 @@ async function redeemEvmToAptos() {
     const transaction = await aptos.transaction.build.simple({
       sender: aptosAccount.accountAddress,
       data: {
-        function: payload.function,
+        function: payload.function as `${string}::${string}::${string}`,
         typeArguments: payload.type_arguments,
         functionArguments: payload.arguments,
       },
@@ -118,8 +89,8 @@ async function waitForAttestation(chain: number, txHash: string) {
   const pollInterval = 5000; const maxRetries = 120; let retries = 0;
   while (retries < maxRetries) {
     try {
-      const url = `${CIRCLE_ATTESTATION_API}/messages/${CCTP_CHAIN_MAP[chain]}/${txHash}`;
-      const res = await fetch(url);
+      const url = `${CIRCLE_ATTESTATION_API}/messages/${cctpDomain(chain)}/${txHash}`;
+      const res = await cassetteFetch(url);
       if (res.ok) {
         const json = await res.json();
         const msg = json?.messages?.[0];
@@ -1,41 +1,17 @@
 /**
  * Redeem flow: EVM → Solana
  */
-import axios from "axios";
 import "dotenv/config";
-import { Connection, Keypair, VersionedTransaction, clusterApiUrl } from "@solana/web3.js";
+import { Connection, Keypair, VersionedTransaction } from "@solana/web3.js";
 import bs58 from "bs58";
-
-const KANA_API_URL = "https://ag.kanalabs.io";
+import { chainConfig } from "../../config";
+import { cctpDomain, explorerTxUrl } from "../../chains";
+import { cassetteFetch } from "../../cassette";
+import { BridgeId, NetworkId } from "../../constant";
+import { kanaClient } from "../../kanaClient";
+import { solanaClaimInstructionSchema } from "../../schemas";
 
 const CIRCLE_ATTESTATION_API = "https://iris-api.circle.com";
-const BRIDGE_ID_CCTP = 3;
-
-// Kana NetworkId Enum
-enum NetworkId {
-  solana = 1,
-  aptos = 2,
-  polygon = 3,
-  bsc = 4,
-  sui = 5,
-  ethereum = 6,
-  base = 7,
-  zkSync = 9,
-  Avalanche = 10,
-  Arbitrum = 11,
-}
-
-// Full CCTP Domain Map for robustness
-const CCTP_CHAIN_MAP: Record<number, number> = {
-  [NetworkId.ethereum]: 0,
-  [NetworkId.Avalanche]: 1,
-  [NetworkId.Arbitrum]: 3,
-  [NetworkId.solana]: 5,
-  [NetworkId.base]: 6,
-  [NetworkId.polygon]: 7,
-  [NetworkId.sui]: 8,
-  [NetworkId.aptos]: 9,
-};
 
 /* -------------------------------------------------------------------------- */
 /* CONFIG                                                                     */
@@ -44,10 +20,9 @@ const EVM_BURN_TX_HASH = process.env.EVM_BURN_TX_HASH!;
 if (!EVM_BURN_TX_HASH) throw new Error("Missing EVM_BURN_TX_HASH");
 
 // Setup Solana
-const connection = new Connection(process.env.SOLANA_RPC_URL || clusterApiUrl("mainnet-beta"), "confirmed");
-const signer = Keypair.fromSecretKey(bs58.decode(process.env.SOLANA_PRIVATE_KEY!));
-
-const headers = { "Content-Type": "application/json", "X-API-KEY": process.env.XYRA_API_KEY! };
+const solanaSettings = chainConfig(NetworkId.solana, "privateKey", "rpcUrl");
+const connection = new Connection(solanaSettings.rpcUrl, "confirmed");
+const signer = Keypair.fromSecretKey(bs58.decode(solanaSettings.privateKey));
 
 /* -------------------------------------------------------------------------- */
 /* MAIN FLOW                                                                  */
@@ -67,23 +42,17 @@ async function redeemEvmToSolana() {
   // 2. Build Redeem
   console.log("🛠️ Building redeem transaction via API...");
   try {
-    const res = await axios.post(`${KANA_API_URL}/v1/redeem`, {
-      sourceChainID: NetworkId.ethereum,
-      targetChainID: NetworkId.solana,
-      bridgeID: BRIDGE_ID_CCTP,
-      targetAddress: signer.publicKey.toBase58(),
-      messageBytes,
-      attestationSignature,
-    }, { headers });
-
-    const dataBlock = res.data.data?.[0] || res.data.data;
-    if (!dataBlock) throw new Error("API returned empty data.");
-
-    const txBase64 = dataBlock.redeemIx || dataBlock.transaction || dataBlock.claimIx || dataBlock.payload || dataBlock.claimPayload;
-    
-    if (!txBase64) {
-      throw new Error(`Missing transaction string. Available keys: ${Object.keys(dataBlock).join(", ")}`);
-    }
+    const { claimIx: txBase64 } = await kanaClient.getRedeemInstruction(
+      {
+        sourceChainID: NetworkId.ethereum,
+        targetChainID: NetworkId.solana,
+        bridgeID: BridgeId.cctp,
+        targetAddress: signer.publicKey.toBase58(),
+        messageBytes,
+        attestationSignature,
+      },
+      solanaClaimInstructionSchema
+    );
 
     console.log("✅ Redeem instruction received");
 
@@ -106,7 +75,7 @@ async function redeemEvmToSolana() {
     }, "finalized");
     
     console.log("🎉 Success! Redeemed on Solana.");
-    console.log(`🔗 Explorer: https://solscan.io/tx/${sig}`);
+    console.log(`🔗 Explorer: ${explorerTxUrl(NetworkId.solana, sig)}`);
 
   } catch (error: any) {
     if (error.response) {
@@ -126,8 +95,8 @@ async function waitForAttestation(chain: number, txHash: string) {
     const pollInterval = 5000; const maxRetries = 120; let retries = 0;
     while (retries < maxRetries) {
       try {
-        const url = `${CIRCLE_ATTESTATION_API}/messages/${CCTP_CHAIN_MAP[chain]}/${txHash}`;
-        const res = await fetch(url);
+        const url = `${CIRCLE_ATTESTATION_API}/messages/${cctpDomain(chain)}/${txHash}`;
+        const res = await cassetteFetch(url);
         if (res.ok) {
           const json = await res.json();
           const msg = json?.messages?.[0];
@@ -1,32 +1,16 @@
 /**
  * Redeem flow: Solana → Aptos
  */
-import axios from "axios";
 import "dotenv/config";
 import { Aptos, AptosConfig, Network, Ed25519Account, Ed25519PrivateKey, PrivateKey, PrivateKeyVariants } from "@aptos-labs/ts-sdk";
-
-const KANA_API_URL = "https://ag.kanalabs.io";
-
-enum NetworkId {
-  solana = 1,
-  aptos = 2,
-  polygon = 3,
-  bsc = 4,
-  sui = 5,
-  ethereum = 6,
-  base = 7,
-  zkSync = 9,
-  Avalanche = 10,
-  Arbitrum = 11,
-}
+import { chainConfig } from "../../config";
+import { cctpDomain } from "../../chains";
+import { cassetteFetch } from "../../cassette";
+import { BridgeId, NetworkId } from "../../constant";
+import { kanaClient } from "../../kanaClient";
+import { aptosClaimInstructionSchema } from "../../schemas";
 
 const CIRCLE_ATTESTATION_API = "https://iris-api.circle.com";
-const BRIDGE_ID_CCTP = 3;
-
-// CCTP Map
-const CCTP_CHAIN_MAP: Record<number, number> = {
-  [NetworkId.solana]: 5, [NetworkId.aptos]: 9
-};
 
 /* -------------------------------------------------------------------------- */
 /* CONFIG                                                                     */
@@ -34,12 +18,11 @@ const CCTP_CHAIN_MAP: Record<number, number> = {
 const SOLANA_BURN_TX_HASH = process.env.SOLANA_BURN_TX_HASH!;
 if (!SOLANA_BURN_TX_HASH) throw new Error("Missing SOLANA_BURN_TX_HASH");
 
-const headers = { "Content-Type": "application/json", "X-API-KEY": process.env.XYRA_API_KEY! };
-
 // Aptos Setup
-const aptos = new Aptos(new AptosConfig({ network: Network.MAINNET }));
+const aptosSettings = chainConfig(NetworkId.aptos, "privateKey");
+const aptos = new Aptos(new AptosConfig({ network: Network.MAINNET, fullnode: aptosSettings.rpcUrl }));
 const aptosAccount = new Ed25519Account({
-  privateKey: new Ed25519PrivateKey(PrivateKey.formatPrivateKey(process.env.APTOS_PRIVATE_KEY!, PrivateKeyVariants.Ed25519)),
+  privateKey: new Ed25519PrivateKey(PrivateKey.formatPrivateKey(aptosSettings.privateKey, PrivateKeyVariants.Ed25519)),
 });
 
 /* -------------------------------------------------------------------------- */
@@ -57,25 +40,17 @@ async function redeemSolanaToAptos() {
   // 2. Build Redeem
   console.log("🛠️ Building redeem transaction via API...");
   try {
-    const res = await axios.post(`${KANA_API_URL}/v1/redeem`, {
-      sourceChainID: NetworkId.solana,
-      targetChainID: NetworkId.aptos,
-      bridgeID: BRIDGE_ID_CCTP,
-      targetAddress: aptosAccount.accountAddress.toString(),
-      messageBytes,
-      attestationSignature,
-    }, { headers });
-
-    const responseData = res.data;
-    const dataBlock = responseData.data?.[0] || responseData.data || responseData;
-
-    if (!dataBlock) throw new Error("API returned empty data.");
-
-    const payload = dataBlock.claimPayload || dataBlock.claimIx || dataBlock.redeemIx || dataBlock.payload || dataBlock.transaction;
-    
-    if (!payload) {
-        throw new Error(`Missing Aptos payload. Available keys: ${Object.keys(dataBlock).join(", ")}`);
-    }
+    const { claimPayload: payload } = await kanaClient.getRedeemInstruction(
+      {
+        sourceChainID: NetworkId.solana,
+        targetChainID: NetworkId.aptos,
+        bridgeID: BridgeId.cctp,
+        targetAddress: aptosAccount.accountAddress.toString(),
+        messageBytes,
+        attestationSignature,
+      },
+      aptosClaimInstructionSchema
+    );
 
     console.log("✅ Redeem instruction received");
 
@@ -85,7 +60,7 @@ async function redeemSolanaToAptos() {
     const transaction = await aptos.transaction.build.simple({
       sender: aptosAccount.accountAddress,
       data: {
-        function: payload.function,
+        function: payload.function as `${string}::${string}::${string}`,
         typeArguments: payload.type_arguments,
         functionArguments: payload.arguments,
       },
@@ -115,8 +90,8 @@ async function waitForAttestation(chain: number, txHash: string) {
     const pollInterval = 5000; const maxRetries = 120; let retries = 0;
     while (retries < maxRetries) {
       try {
-        const url = `${CIRCLE_ATTESTATION_API}/messages/${CCTP_CHAIN_MAP[chain]}/${txHash}`;
-        const res = await fetch(url);
+        const url = `${CIRCLE_ATTESTATION_API}/messages/${cctpDomain(chain)}/${txHash}`;
+        const res = await cassetteFetch(url);
         if (res.ok) {
           const json = await res.json();
           const msg = json?.messages?.[0];
@@ -7,9 +7,9 @@
  * 3. Wait for FINALIZED Solana burn
  * 4. Poll Circle CCTP attestation
  * 5. Claim on Aptos (mint USDC)
+ * 6. Swap into the target token when the quote has a target swap
  */
 
-import axios from "axios";
 import "dotenv/config";
 
 import {
@@ -17,7 +17,6 @@ import {
   Keypair,
   PublicKey,
   VersionedTransaction,
-  clusterApiUrl,
 } from "@solana/web3.js";
 
 import {
@@ -31,47 +30,58 @@ import {
 } from "@aptos-labs/ts-sdk";
 
 import bs58 from "bs58";
-import { NetworkId, KANA_API_URL } from "../constant";
+import { chainConfig } from "../config";
+import { parseAmount } from "../amount";
+import { describeCrossChainQuote } from "../crossChainQuote";
+import { cctpDomain, getChain } from "../chains";
+import { cassetteFetch } from "../cassette";
+import { NetworkId } from "../constant";
+import { kanaClient } from "../kanaClient";
+import { executeAptosTargetSwap } from "./helpers/aptosTargetSwap";
+import { AptosEntryFunctionPayload, Slippage } from "../types";
+import {
+  aptosClaimInstructionSchema,
+  solanaTransferInstructionSchema,
+} from "../schemas";
 
 /* -------------------------------------------------------------------------- */
 /*                                  CONFIG                                    */
 /* -------------------------------------------------------------------------- */
 
-const SOURCE_TOKEN = "So11111111111111111111111111111111111111112"; // SOL
-const TARGET_TOKEN =
-  "0xbae207659db88bea0cbead6da0ed00aac12edcdda169e591cd41c94180b46f3b"; // Aptos USDC
+const SOURCE_TOKEN = getChain(NetworkId.solana).nativeToken.address; // SOL
+const TARGET_TOKEN = "USDC"; // Aptos USDC
 
-const AMOUNT_IN = "10000000"; // ✅ 0.01 SOL (lamports)
-const SLIPPAGE = 1;
+const AMOUNT_IN = "0.01 SOL";
+// Percent per swap leg, or "auto" to follow each leg's quoted price impact.
+const SOURCE_SLIPPAGE: Slippage = 1;
+const TARGET_SLIPPAGE: Slippage = 1;
 
-const headers = {
-  "Content-Type": "application/json",
-  "X-API-KEY": process.env.XYRA_API_KEY!,
-};
+const solanaSettings = chainConfig(NetworkId.solana, "privateKey", "rpcUrl");
+const aptosSettings = chainConfig(NetworkId.aptos, "privateKey");
 
 /* ---------------------------- SOLANA SETUP -------------------------------- */
 
 const solanaConnection = new Connection(
-  clusterApiUrl("mainnet-beta"),
+  solanaSettings.rpcUrl,
   {
     commitment: "confirmed",
   }
 );
 
 const solanaSigner = Keypair.fromSecretKey(
-  bs58.decode(process.env.SOLANA_PRIVATE_KEY!)
+  bs58.decode(solanaSettings.privateKey)
 );
 
 /* ----------------------------- APTOS SETUP -------------------------------- */
 
 const aptos = new Aptos(
-  new AptosConfig({ network: Network.MAINNET })
+  new AptosConfig({ network: Network.MAINNET, fullnode: aptosSettings.rpcUrl })
 );
 
 const aptosAccount = new Ed25519Account({
   privateKey: new Ed25519PrivateKey(
     PrivateKey.formatPrivateKey(
-      process.env.APTOS_PRIVATE_KEY!,
+      aptosSettings.privateKey,
       PrivateKeyVariants.Ed25519
     )
   ),
@@ -83,34 +93,30 @@ const aptosAccount = new Ed25519Account({
 
 async function solanaToAptosSwap() {
   /* --------------------------- 1. QUOTE ---------------------------------- */
-  const quoteRes = await axios.get(`${KANA_API_URL}/v1/crossChainQuote`, {
-    params: {
-      sourceToken: SOURCE_TOKEN,
-      targetToken: TARGET_TOKEN,
-      sourceChain: NetworkId.solana,
-      targetChain: NetworkId.aptos,
-      amountIn: AMOUNT_IN,
-      sourceSlippage: SLIPPAGE,
-      targetSlippage: SLIPPAGE,
-    },
-    headers,
-  });
-
-  const quote = quoteRes.data.data[0];
+  const amountIn = await parseAmount(NetworkId.solana, AMOUNT_IN);
+  const request = {
+    sourceToken: SOURCE_TOKEN,
+    targetToken: TARGET_TOKEN,
+    sourceChain: NetworkId.solana,
+    targetChain: NetworkId.aptos,
+    amountIn: amountIn.amount,
+    sourceSlippage: SOURCE_SLIPPAGE,
+    targetSlippage: TARGET_SLIPPAGE,
+  };
+  const { quote } = await kanaClient.getBestCrossChainQuote(request);
   console.log("✅ Quote fetched");
+  console.log(await describeCrossChainQuote(quote, request));
 
   /* ---------------------- 2. BUILD TRANSFER ------------------------------- */
-  const transferRes = await axios.post(
-    `${KANA_API_URL}/v1/crossChainTransfer`,
-    {
-      quote,
-      sourceAddress: solanaSigner.publicKey.toBase58(),
-      targetAddress: aptosAccount.accountAddress.toString(),
-    },
-    { headers }
-  );
-
-  const transferTxBase64 = transferRes.data.data.transferTx;
+  const { instruction: { transferTx: transferTxBase64 }, quote: transferQuote } =
+    await kanaClient.getCrossChainTransfer(
+      {
+        quote,
+        sourceAddress: solanaSigner.publicKey.toBase58(),
+        targetAddress: aptosAccount.accountAddress.toString(),
+      },
+      solanaTransferInstructionSchema
+    );
   console.log("✅ Source instructions built");
 
   /* -------------------- 3. EXECUTE ON SOLANA (BURN) ----------------------- */
@@ -129,18 +135,16 @@ async function solanaToAptosSwap() {
   console.log("🟢 CCTP attestation ready");
 
   /* -------------------- 5. CLAIM ON APTOS (MINT) -------------------------- */
-  const claimRes = await axios.post(
-    `${KANA_API_URL}/v1/claim`,
-    {
-      quote,
-      targetAddress: aptosAccount.accountAddress.toString(),
-      messageBytes,
-      attestationSignature,
-    },
-    { headers }
-  );
-
-  const claimPayload = claimRes.data.data.claimPayload;
+  const { claimPayload } =
+    await kanaClient.getClaimInstruction(
+      {
+        quote: transferQuote,
+        targetAddress: aptosAccount.accountAddress.toString(),
+        messageBytes,
+        attestationSignature,
+      },
+      aptosClaimInstructionSchema
+    );
   console.log("✅ Claim payload received");
 
   const mintTxHash = await executeAptosClaim(
@@ -150,6 +154,21 @@ async function solanaToAptosSwap() {
   );
 
   console.log("🎉 USDC minted on Aptos:", mintTxHash);
+
+  /* -------------------- 6. TARGET SWAP ON APTOS --------------------------- */
+  if (!transferQuote.targetSwapRoute) {
+    console.log("🏁 No target swap required");
+    return;
+  }
+
+  console.log("⏳ Swapping into the target token on Aptos...");
+  const swapTxHash = await executeAptosTargetSwap({
+    aptos,
+    signer: aptosAccount,
+    route: transferQuote.targetSwapRoute,
+    slippage: TARGET_SLIPPAGE,
+  });
+  console.log("🚀 Final swap complete:", swapTxHash);
 }
 
 solanaToAptosSwap();
@@ -196,7 +215,7 @@ async function executeSolanaTx(
 async function executeAptosClaim(
   aptos: Aptos,
   signer: Ed25519Account,
-  payload: any
+  payload: AptosEntryFunctionPayload
 ): Promise<string> {
   const tx = await aptos.transaction.build.simple({
     sender: signer.accountAddress.toString(),
@@ -225,10 +244,10 @@ async function executeAptosClaim(
 const CIRCLE_ATTESTATION_API = "https://iris-api.circle.com";
 
 async function waitForCctpAttestation(txHash: string) {
-  const cctpChainId = 5; // Solana
+  const cctpChainId = cctpDomain(NetworkId.solana);
 
   while (true) {
-    const res = await fetch(
+    const res = await cassetteFetch(
       `${CIRCLE_ATTESTATION_API}/messages/${cctpChainId}/${txHash}`
     );
     const json = await res.json();
@@ -0,0 +1,176 @@
+import { formatUnits } from "./amount";
+import { getChain } from "./chains";
+import { BridgeId, NetworkId } from "./constant";
+import { resolveToken } from "./tokens";
+import { CrossChainQuote, CrossChainQuoteParams, QuoteFee, SwapRoute } from "./types";
+
+/* ------------------ TYPES ------------------ */
+
+export type LegKind = "source swap" | "bridge" | "target swap";
+
+export interface QuoteLeg {
+  kind: LegKind;
+  /** Where the leg's transaction runs; the bridge leg starts here. */
+  chain: NetworkId;
+  /** Where the leg delivers; differs from `chain` only for the bridge. */
+  toChain: NetworkId;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: string;
+  amountOut?: string;
+  minAmountOut?: string;
+  provider?: string;
+  fees: QuoteFee[];
+  /** In `chain`'s native base units; undefined when the quote does not say. */
+  gasEstimate?: string;
+}
+
+export interface CrossChainBreakdown {
+  sourceChain: NetworkId;
+  targetChain: NetworkId;
+  legs: QuoteLeg[];
+  amountIn: string;
+  amountOut?: string;
+  minAmountOut?: string;
+  gas: { source?: string; target?: string };
+  etaSeconds: number;
+  /** Set when the quote gave no time and `etaSeconds` is a typical figure. */
+  etaEstimated: boolean;
+}
+
+/** The parts of the quote request the breakdown needs; the quote itself may omit them. */
+export type CrossChainRequest = Pick<
+  CrossChainQuoteParams,
+  "sourceChain" | "targetChain" | "sourceToken" | "targetToken"
+>;
+
+/* ------------------ BREAKDOWN ------------------ */
+
+// Rough allowance per transaction (source swap, burn, claim, target swap), confirmation included.
+const TRANSACTION_SECONDS = 30;
+
+function swapLeg(kind: LegKind, chain: NetworkId, route: SwapRoute): QuoteLeg {
+  return {
+    kind,
+    chain,
+    toChain: chain,
+    tokenIn: route.sourceToken,
+    tokenOut: route.targetToken,
+    amountIn: route.amountIn,
+    amountOut: route.amountOut,
+    minAmountOut: route.amountOutWithSlippage,
+    provider: route.provider,
+    fees: route.fees ?? [],
+    gasEstimate: route.gasEstimate,
+  };
+}
+
+/** Splits a quote into its source swap, bridge and target swap legs. */
+export function crossChainBreakdown(
+  quote: CrossChainQuote,
+  request: CrossChainRequest
+): CrossChainBreakdown {
+  const { sourceChain, targetChain } = request;
+  const { sourceSwapRoute, targetSwapRoute } = quote;
+
+  const amountIn = quote.inAmount ?? sourceSwapRoute?.amountIn ?? "0";
+  const bridged = sourceSwapRoute?.amountOutWithSlippage ?? sourceSwapRoute?.amountOut ?? amountIn;
+  const legs: QuoteLeg[] = [];
+
+  if (sourceSwapRoute) legs.push(swapLeg("source swap", sourceChain, sourceSwapRoute));
+  legs.push({
+    kind: "bridge",
+    chain: sourceChain,
+    toChain: targetChain,
+    tokenIn: quote.sourceBridgeToken ?? sourceSwapRoute?.targetToken ?? quote.sourceToken ?? request.sourceToken,
+    tokenOut: quote.targetBridgeToken ?? targetSwapRoute?.sourceToken ?? quote.targetToken ?? request.targetToken,
+    amountIn: bridged,
+    amountOut: targetSwapRoute?.amountIn ?? quote.outAmount,
+    provider: quote.bridge ?? (quote.bridgeId !== undefined ? BridgeId[quote.bridgeId] : undefined),
+    fees: quote.bridgeFees ?? [],
+    gasEstimate: sourceSwapRoute ? undefined : quote.gasEstimate?.source,
+  });
+  if (targetSwapRoute) legs.push(swapLeg("target swap", targetChain, targetSwapRoute));
+
+  // Every leg plus the claim on the target chain is one transaction.
+  const estimate =
+    (getChain(sourceChain).attestationSeconds ?? 0) + TRANSACTION_SECONDS * (legs.length + 1);
+
+  return {
+    sourceChain,
+    targetChain,
+    legs,
+    amountIn,
+    amountOut: quote.outAmount,
+    minAmountOut: quote.amountOutWithSlippage,
+    gas: quote.gasEstimate ?? {},
+    etaSeconds: quote.estimatedTime ?? estimate,
+    etaEstimated: quote.estimatedTime === undefined,
+  };
+}
+
+/* ------------------ DISPLAY ------------------ */
+
+async function formatToken(chain: NetworkId, token: string, amount: string | undefined): Promise<string> {
+  if (amount === undefined) return "unknown";
+  try {
+    const info = await resolveToken(chain, token);
+    return `${formatUnits(amount, info.decimals)} ${info.symbol ?? token}`;
+  } catch {
+    return `${amount} (base units of ${token})`;
+  }
+}
+
+function formatGas(chain: NetworkId, amount: string | undefined): string {
+  if (amount === undefined) return "unknown";
+  const { nativeToken } = getChain(chain);
+  return `~${formatUnits(amount, nativeToken.decimals)} ${nativeToken.symbol}`;
+}
+
+function formatDuration(seconds: number): string {
+  return seconds < 90 ? `${seconds}s` : `${Math.round(seconds / 60)} min`;
+}
+
+/** The whole route, leg by leg, for review before anything is signed. */
+export async function describeCrossChainQuote(
+  quote: CrossChainQuote,
+  request: CrossChainRequest
+): Promise<string> {
+  const route = crossChainBreakdown(quote, request);
+  const sourceToken = quote.sourceToken ?? request.sourceToken;
+  const targetToken = quote.targetToken ?? request.targetToken;
+  const source = getChain(route.sourceChain).name;
+  const target = getChain(route.targetChain).name;
+  const lines = [
+    `Route ${source} → ${target}: ` +
+      `${await formatToken(route.sourceChain, sourceToken, route.amountIn)} → ` +
+      `~${await formatToken(route.targetChain, targetToken, route.amountOut)}` +
+      ` (at least ${await formatToken(route.targetChain, targetToken, route.minAmountOut)})`,
+  ];
+
+  for (const [index, leg] of route.legs.entries()) {
+    const where = leg.chain === leg.toChain
+      ? `on ${getChain(leg.chain).name}`
+      : `${getChain(leg.chain).name} → ${getChain(leg.toChain).name}`;
+    lines.push(
+      `  ${index + 1}. ${leg.kind} ${where}${leg.provider ? ` via ${leg.provider}` : ""}: ` +
+        `${await formatToken(leg.chain, leg.tokenIn, leg.amountIn)} → ` +
+        `${await formatToken(leg.toChain, leg.tokenOut, leg.amountOut)}`
+    );
+    if (leg.minAmountOut) {
+      lines.push(`     min out: ${await formatToken(leg.toChain, leg.tokenOut, leg.minAmountOut)}`);
+    }
+    for (const fee of leg.fees) {
+      lines.push(`     ${fee.label} fee: ${await formatToken(leg.chain, fee.token, fee.amount)}`);
+    }
+    if (leg.gasEstimate) lines.push(`     gas: ${formatGas(leg.chain, leg.gasEstimate)}`);
+  }
+
+  lines.push(
+    `  gas: ${formatGas(route.sourceChain, route.gas.source)} on ${source}, ` +
+      `${formatGas(route.targetChain, route.gas.target)} on ${target}`,
+    `  ETA: ~${formatDuration(route.etaSeconds)}` +
+      (route.etaEstimated ? " (typical attestation time; the quote gave none)" : "")
+  );
+  return lines.join("\n");
+}
@@ -0,0 +1,180 @@
+/* ------------------ KANA API ------------------ */
+
+export class KanaResponseError extends Error {
+  constructor(
+    readonly endpoint: string,
+    readonly field: string,
+    readonly expected: string,
+    readonly received: string,
+    readonly receivedKeys: string[]
+  ) {
+    super(
+      `Invalid ${endpoint} response: expected "${field}" to be ${expected}, got ${received}` +
+        ` (keys returned: ${receivedKeys.length ? receivedKeys.join(", ") : "none"})`
+    );
+    this.name = "KanaResponseError";
+  }
+}
+
+export class NoQuoteError extends Error {
+  constructor(readonly endpoint: string) {
+    super(`${endpoint} returned no routes`);
+    this.name = "NoQuoteError";
+  }
+}
+
+export class MaxInputExceededError extends Error {
+  constructor(readonly maxAmountIn: string, readonly required: string) {
+    super(`Every route may spend more than the ${maxAmountIn} input cap (cheapest needs up to ${required})`);
+    this.name = "MaxInputExceededError";
+  }
+}
+
+export class StaleQuoteError extends Error {
+  constructor(readonly ageMs: number, readonly maxAgeSeconds: number) {
+    super(`Quote is ${Math.round(ageMs / 1000)}s old (max ${maxAgeSeconds}s) and cannot be re-fetched`);
+    this.name = "StaleQuoteError";
+  }
+}
+
+export class IndicativeQuoteError extends Error {
+  constructor() {
+    super("Cached quotes are for display only; fetch one with getBestSwapQuote to execute");
+    this.name = "IndicativeQuoteError";
+  }
+}
+
+export class MissingQuoteAmountError extends Error {
+  constructor(readonly label: string) {
+    super(`${label} has no amount to compare a re-quote against`);
+    this.name = "MissingQuoteAmountError";
+  }
+}
+
+export class QuoteDriftError extends Error {
+  constructor(
+    readonly label: string,
+    readonly original: string,
+    readonly fresh: string,
+    readonly driftPercent: number,
+    readonly maxDriftPercent: number
+  ) {
+    super(
+      `${label} moved from ${original} to ${fresh} ` +
+        `(${driftPercent.toFixed(2)}% worse, tolerance ${maxDriftPercent}%)`
+    );
+    this.name = "QuoteDriftError";
+  }
+}
+
+export class PriceBandError extends Error {
+  constructor(readonly slice: number, readonly driftPercent: number, readonly maxBandPercent: number) {
+    super(
+      `Slice ${slice} is priced ${driftPercent.toFixed(2)}% worse than the first slice ` +
+        `(band ${maxBandPercent}%)`
+    );
+    this.name = "PriceBandError";
+  }
+}
+
+export class PriceImpactError extends Error {
+  constructor(readonly priceImpact: number, readonly maxPriceImpact: number) {
+    super(`Price impact ${priceImpact}% is above the ${maxPriceImpact}% ceiling`);
+    this.name = "PriceImpactError";
+  }
+}
+
+export class MinimumOutputError extends Error {
+  constructor(readonly minimumOut: string, readonly minAmountOut: string) {
+    super(`Quote only guarantees ${minimumOut} out, below the ${minAmountOut} floor`);
+    this.name = "MinimumOutputError";
+  }
+}
+
+export class ProviderNotAllowedError extends Error {
+  constructor(readonly chain: string, readonly provider: string | undefined, readonly reason: string) {
+    super(`Route on ${chain} uses provider ${provider ?? "(not named)"}, which ${reason}`);
+    this.name = "ProviderNotAllowedError";
+  }
+}
+
+/* ------------------ EVM ------------------ */
+
+export class TransactionRevertedError extends Error {
+  constructor(readonly label: string, readonly hash: string) {
+    super(`${label} transaction ${hash} reverted`);
+    this.name = "TransactionRevertedError";
+  }
+}
+
+export class SimulationRevertedError extends Error {
+  constructor(readonly label: string, readonly reason: string, readonly revertData?: string) {
+    super(`${label} would revert, so it was not sent: ${reason}`);
+    this.name = "SimulationRevertedError";
+  }
+}
+
+export class TransactionReplacedError extends Error {
+  constructor(readonly label: string, readonly hash: string, readonly nonce: number) {
+    super(`${label} transaction ${hash} was replaced: another transaction used nonce ${nonce}`);
+    this.name = "TransactionReplacedError";
+  }
+}
+
+export class TransactionDroppedError extends Error {
+  constructor(readonly label: string, readonly hash: string) {
+    super(`${label} transaction ${hash} was dropped from the mempool`);
+    this.name = "TransactionDroppedError";
+  }
+}
+
+export class TransactionCancelledError extends Error {
+  constructor(readonly label: string, readonly hash: string, readonly cancelHash: string) {
+    super(`${label} transaction ${hash} was stuck and cancelled by ${cancelHash}`);
+    this.name = "TransactionCancelledError";
+  }
+}
+
+export class PermitShortfallError extends Error {
+  constructor(readonly permitted: string, readonly required: string) {
+    super(`Permit covers ${permitted} but the swap may spend up to ${required}; sign it for the quote being built`);
+    this.name = "PermitShortfallError";
+  }
+}
+
+/* ------------------ CONFIG ------------------ */
+
+export class ConfigError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Invalid configuration:\n${issues.map((issue) => `  - ${issue}`).join("\n")}`);
+    this.name = "ConfigError";
+  }
+}
+
+/* ------------------ TOKENS ------------------ */
+
+export class UnknownTokenError extends Error {
+  constructor(readonly chain: string, readonly symbol: string) {
+    super(`No token with symbol "${symbol}" on ${chain}; pass its address instead`);
+    this.name = "UnknownTokenError";
+  }
+}
+
+export class AmbiguousTokenError extends Error {
+  constructor(readonly chain: string, readonly symbol: string, readonly candidates: string[]) {
+    super(
+      `"${symbol}" matches ${candidates.length} tokens on ${chain}; pass one of their addresses:\n` +
+        candidates.map((candidate) => `  - ${candidate}`).join("\n")
+    );
+    this.name = "AmbiguousTokenError";
+  }
+}
+
+/* ------------------ CASSETTE ------------------ */
+
+export class CassetteMissError extends Error {
+  constructor(readonly file: string, readonly reason: string) {
+    super(`Cassette ${file}: ${reason}`);
+    this.name = "CassetteMissError";
+  }
+}
@@ -0,0 +1,113 @@
+import "dotenv/config";
+import { ethers } from "ethers";
+import { ethersNetwork, getChain, isEvmChain } from "../chains";
+import { ChainName, chainConfig, getKanaConfig, isPlaceholder } from "../config";
+import { formatUnits } from "../amount";
+import { KANA_SPENDERS, NetworkId } from "../constant";
+import { TokenInfo, listedTokens, resolveToken } from "../tokens";
+import { UNLIMITED_THRESHOLD, encodeApprove } from "./erc20";
+import { ethersBackend } from "./ethers";
+import { EvmBackend, readAllowance, sendEvmCall } from "./executor";
+
+/* ------------------ ALLOWANCES ------------------ */
+
+export interface Allowance {
+  token: TokenInfo;
+  spender: string;
+  amount: bigint;
+}
+
+/** Every non-zero allowance the backend's account has given `spenders` on `tokens`. */
+export async function listAllowances(
+  backend: EvmBackend,
+  tokens: TokenInfo[],
+  spenders: string[] = KANA_SPENDERS
+): Promise<Allowance[]> {
+  const owner = await backend.address();
+  const allowances: Allowance[] = [];
+  for (const token of tokens.filter((entry) => entry.program !== "native")) {
+    for (const spender of spenders) {
+      const amount = await readAllowance(backend, token.address, owner, spender);
+      if (amount > BigInt(0)) allowances.push({ token, spender, amount });
+    }
+  }
+  return allowances;
+}
+
+/** Sets the allowance back to zero; returns the transaction hash. */
+export function revokeAllowance(backend: EvmBackend, allowance: Allowance): Promise<string> {
+  const { token, spender } = allowance;
+  return sendEvmCall(
+    backend,
+    { to: token.address, data: encodeApprove(spender, BigInt(0)) },
+    `Revoke ${token.symbol ?? token.address}`
+  );
+}
+
+export function describeAllowance({ token, spender, amount }: Allowance): string {
+  const size = amount >= UNLIMITED_THRESHOLD ? "unlimited" : formatUnits(amount, token.decimals);
+  return `${token.symbol ?? token.address} → ${spender}: ${size}`;
+}
+
+/* ------------------ CLI ------------------ */
+
+function argValues(name: string): string[] {
+  const values: string[] = [];
+  process.argv.forEach((arg, index) => {
+    if (arg === `--${name}` && process.argv[index + 1]) values.push(process.argv[index + 1]);
+  });
+  return values;
+}
+
+/**
+ * The requested chains, or every EVM chain with both a private key and an RPC
+ * URL that are not placeholders. `EVM_PRIVATE_KEY` sets a key on every EVM chain, but EVM chains have no
+ * default RPC, so a key alone does not make a chain usable.
+ */
+function selectedChains(): NetworkId[] {
+  const names = argValues("chain");
+  if (names.length) {
+    return names.map((name) => {
+      const chain = NetworkId[name as ChainName];
+      if (chain === undefined || !isEvmChain(chain)) throw new Error(`"${name}" is not an EVM chain`);
+      return chain;
+    });
+  }
+  const { chains } = getKanaConfig();
+  return (Object.keys(chains) as ChainName[])
+    .filter((name) => {
+      const { privateKey, rpcUrl } = chains[name] ?? {};
+      return [privateKey, rpcUrl].every((value) => value && !isPlaceholder(value));
+    })
+    .map((name) => NetworkId[name])
+    .filter(isEvmChain);
+}
+
+async function run(chain: NetworkId, revoke: boolean): Promise<void> {
+  const { privateKey, rpcUrl } = chainConfig(chain, "privateKey", "rpcUrl");
+  const provider = new ethers.providers.JsonRpcProvider(rpcUrl, ethersNetwork(chain));
+  const backend = ethersBackend(new ethers.Wallet(privateKey, provider));
+
+  const tokenArgs = argValues("token");
+  const tokens = tokenArgs.length
+    ? await Promise.all(tokenArgs.map((token) => resolveToken(chain, token)))
+    : listedTokens(chain);
+  const spenders = argValues("spender");
+  const allowances = await listAllowances(backend, tokens, spenders.length ? spenders : KANA_SPENDERS);
+
+  console.log(`🔎 ${getChain(chain).name}: ${allowances.length} allowance(s) for ${await backend.address()}`);
+  for (const allowance of allowances) {
+    console.log(`  ${describeAllowance(allowance)}`);
+    if (revoke) console.log(`  ✅ Revoked: ${await revokeAllowance(backend, allowance)}`);
+  }
+}
+
+if (require.main === module) {
+  const revoke = process.argv.includes("--revoke");
+  (async () => {
+    for (const chain of selectedChains()) await run(chain, revoke);
+  })().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
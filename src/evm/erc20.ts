@@ -0,0 +1,42 @@
+/* ------------------ CALLDATA ------------------ */
+
+// approve(address,uint256) and allowance(address,address)
+const APPROVE_SELECTOR = "0x095ea7b3";
+const ALLOWANCE_SELECTOR = "0xdd62ed3e";
+
+export const MAX_UINT256 = (BigInt(1) << BigInt(256)) - BigInt(1);
+
+/** Allowances at or above this are treated as unlimited; some tokens count an unlimited allowance down. */
+export const UNLIMITED_THRESHOLD = BigInt(1) << BigInt(255);
+
+const word = (value: bigint) => value.toString(16).padStart(64, "0");
+const addressWord = (address: string) => address.toLowerCase().replace(/^0x/, "").padStart(64, "0");
+
+export function encodeApprove(spender: string, amount: bigint): string {
+  return APPROVE_SELECTOR + addressWord(spender) + word(amount);
+}
+
+export function encodeAllowance(owner: string, spender: string): string {
+  return ALLOWANCE_SELECTOR + addressWord(owner) + addressWord(spender);
+}
+
+/** The spender and amount of `approve` calldata; undefined for any other call. */
+export function decodeApprove(data: string): { spender: string; amount: bigint } | undefined {
+  const hex = data.toLowerCase();
+  if (!hex.startsWith(APPROVE_SELECTOR) || hex.length < 10 + 128) return undefined;
+  return {
+    spender: `0x${hex.slice(10 + 24, 10 + 64)}`,
+    amount: BigInt(`0x${hex.slice(10 + 64, 10 + 128)}`),
+  };
+}
+
+/* ------------------ TOKEN QUIRKS ------------------ */
+
+// Tokens that revert when an allowance is changed from one non-zero value to another.
+const ZERO_FIRST_TOKENS = new Set([
+  "0xdac17f958d2ee523a2206206994597c13d831ec7", // USDT on Ethereum
+]);
+
+export function needsZeroFirst(token: string): boolean {
+  return ZERO_FIRST_TOKENS.has(token.toLowerCase());
+}
@@ -0,0 +1,101 @@
+import { BigNumber, ethers } from "ethers";
+import { EvmBackend, EvmCall } from "./executor";
+import { EvmFees } from "./fees";
+
+function toRequest(call: EvmCall): ethers.providers.TransactionRequest {
+  return {
+    to: call.to,
+    data: call.data,
+    value: BigNumber.from(call.value ?? 0),
+    chainId: call.chainId,
+  };
+}
+
+function toFeeFields(fees: EvmFees): ethers.providers.TransactionRequest {
+  return fees.type === "legacy"
+    ? { type: 0, gasPrice: BigNumber.from(fees.gasPrice.toString()) }
+    : {
+        type: 2,
+        maxFeePerGas: BigNumber.from(fees.maxFeePerGas.toString()),
+        maxPriorityFeePerGas: BigNumber.from(fees.maxPriorityFeePerGas.toString()),
+      };
+}
+
+/** Executor backend over an ethers v5 signer connected to a JSON-RPC provider. */
+export function ethersBackend(signer: ethers.Signer): EvmBackend {
+  const provider = signer.provider as ethers.providers.JsonRpcProvider | undefined;
+  if (!provider) throw new Error("ethers signer has no provider");
+
+  return {
+    address: () => signer.getAddress(),
+    chainId: () => signer.getChainId(),
+    call: (to, data) => provider.call({ to, data }),
+    async transactionCount(blockTag) {
+      return provider.getTransactionCount(await signer.getAddress(), blockTag);
+    },
+    async feeHistory(blockCount, rewardPercentiles) {
+      // ethers v5 has no wrapper for eth_feeHistory.
+      const history = await provider.send("eth_feeHistory", [
+        ethers.utils.hexValue(blockCount),
+        "latest",
+        rewardPercentiles,
+      ]);
+      return {
+        baseFeePerGas: (history.baseFeePerGas ?? []).map((fee: string) => BigInt(fee)),
+        reward: (history.reward ?? []).map((rewards: string[]) => rewards.map((fee) => BigInt(fee))),
+      };
+    },
+    async gasPrice() {
+      return (await provider.getGasPrice()).toBigInt();
+    },
+    async simulate(call) {
+      const request = {
+        from: await signer.getAddress(),
+        to: call.to,
+        data: call.data,
+        value: ethers.utils.hexValue(BigNumber.from(call.value ?? 0)),
+      };
+      try {
+        // Raw eth_call: provider.call() hands revert data back as if it were the result.
+        await provider.send("eth_call", [request, "latest"]);
+        return { reverted: false };
+      } catch (err: any) {
+        // send() wraps the node's JSON-RPC error in a SERVER_ERROR, under `error`.
+        const rpc = err?.code === ethers.errors.SERVER_ERROR && err.error ? err.error : err;
+        // Only a revert carries code 3 or revert data; insufficient funds, rate
+        // limits and transport failures are not the call's fault.
+        const raw = typeof rpc?.data === "object" ? rpc.data?.data : rpc?.data;
+        const data = typeof raw === "string" && ethers.utils.isHexString(raw) ? raw : undefined;
+        const reverted = rpc?.code === 3 || data !== undefined || /execution reverted/i.test(rpc?.message ?? "");
+        if (typeof rpc?.code !== "number" || !reverted) throw err;
+        return { reverted: true, revertData: data };
+      }
+    },
+    async estimateGas(call) {
+      return (await signer.estimateGas(toRequest(call))).toBigInt();
+    },
+    async signTypedData({ domain, types, message }) {
+      // Both Wallet and JsonRpcSigner implement the (still underscored) v5 API.
+      const typedSigner = signer as ethers.Wallet;
+      if (typeof typedSigner._signTypedData !== "function") throw new Error("ethers signer cannot sign typed data");
+      return typedSigner._signTypedData(domain, types, message);
+    },
+    async send(call, gasLimit, fees, nonce) {
+      const tx = await signer.sendTransaction({
+        ...toRequest(call),
+        ...toFeeFields(fees),
+        gasLimit: BigNumber.from(gasLimit.toString()),
+        nonce,
+      });
+      return tx.hash;
+    },
+    async receipt(hash) {
+      const receipt = await provider.getTransactionReceipt(hash);
+      if (!receipt) return undefined;
+      return { hash, status: receipt.status === 0 ? "reverted" : "success", blockNumber: receipt.blockNumber };
+    },
+    async isKnown(hash) {
+      return (await provider.getTransaction(hash)) != null;
+    },
+  };
+}
@@ -0,0 +1,415 @@
+import { chainByEvmId } from "../chains";
+import { ApprovalPolicy, ChainName, ChainSettings, StuckAction, getKanaConfig } from "../config";
+import { NetworkId } from "../constant";
+import {
+  SimulationRevertedError,
+  TransactionCancelledError,
+  TransactionDroppedError,
+  TransactionReplacedError,
+  TransactionRevertedError,
+} from "../errors";
+import {
+  MAX_UINT256,
+  UNLIMITED_THRESHOLD,
+  decodeApprove,
+  encodeAllowance,
+  encodeApprove,
+  needsZeroFirst,
+} from "./erc20";
+import { EvmFees, FeeOptions, FeeSource, bumpFees, describeFees, resolveFees } from "./fees";
+import { NonceSource, isNonceError, nonceManager } from "./nonces";
+import { decodeRevert, describeRevert } from "./revert";
+import {
+  EvmCallIX,
+  EvmClaimInstruction,
+  EvmSwapInstruction,
+  EvmTransferInstruction,
+  TransactionIX,
+} from "../types";
+
+/* ------------------ BACKEND ------------------ */
+
+/** One transaction to send, as the API describes it; amounts are decimal or hex strings. */
+export interface EvmCall {
+  to: string;
+  data: string;
+  value?: string;
+  /** The API's legacy gas price; only paid in legacy fee mode. */
+  gasPrice?: string;
+  gasLimit?: string;
+  chainId?: number;
+}
+
+export interface EvmReceipt {
+  hash: string;
+  status: "success" | "reverted";
+  blockNumber: number;
+}
+
+/** The outcome of `eth_call`ing a transaction from the account. */
+export type SimulationResult =
+  | { reverted: false }
+  | { reverted: true; /** Raw revert payload, when the node returned one. */ revertData?: string };
+
+/** EIP-712 typed data, without the `EIP712Domain` type (the libraries derive it). */
+export interface TypedData {
+  domain: { name: string; version?: string; chainId: number; verifyingContract: string };
+  types: Record<string, { name: string; type: string }[]>;
+  primaryType: string;
+  message: Record<string, unknown>;
+}
+
+/** What the executor needs from a wallet library; see ethers.ts and viem.ts. */
+export interface EvmBackend extends FeeSource, NonceSource {
+  /** `eth_call` against the latest block; resolves with the hex return data. */
+  call(to: string, data: string): Promise<string>;
+  /** Runs `call` from the account against the latest block; rejects only when the node cannot be reached. */
+  simulate(call: EvmCall): Promise<SimulationResult>;
+  estimateGas(call: EvmCall): Promise<bigint>;
+  signTypedData(data: TypedData): Promise<string>;
+  /** Signs and broadcasts; resolves with the hash without waiting for inclusion. */
+  send(call: EvmCall, gasLimit: bigint, fees: EvmFees, nonce: number): Promise<string>;
+  /** The receipt once the transaction is mined; undefined before. */
+  receipt(hash: string): Promise<EvmReceipt | undefined>;
+  /** Whether the node still knows the transaction, pending or mined. */
+  isKnown(hash: string): Promise<boolean>;
+}
+
+/* ------------------ SENDING ------------------ */
+
+export interface SendOptions {
+  /** Added on top of the gas estimate, in percent. */
+  gasBufferPercent?: number;
+  /** Overrides the chain's `feeMode` / `feeSpeed` settings. */
+  fees?: FeeOptions;
+  /** Overrides the chain's `approvalPolicy` setting. */
+  approvalPolicy?: ApprovalPolicy;
+  /** What the instruction spends, in token base units; defaults to the amount the API approves. */
+  spendAmount?: string | bigint;
+  /** Set to false to wait for each transaction of a sequence before sending the next. */
+  pipeline?: boolean;
+  /** Set to false to skip the `eth_call` run before each transaction. */
+  simulate?: boolean;
+  /** Override the chain's stuck-transaction settings. */
+  stuckAfterSeconds?: number;
+  onStuck?: StuckAction;
+  maxFeeBumps?: number;
+}
+
+/** A broadcast transaction that has not been confirmed yet, with what is needed to re-send it. */
+export interface PendingEvmCall {
+  label: string;
+  hash: string;
+  nonce: number;
+  call: EvmCall;
+  gasLimit: bigint;
+  fees: EvmFees;
+}
+
+/** One transaction of a sequence; see `sendEvmSequence`. */
+export interface EvmStep {
+  call: EvmCall;
+  label: string;
+}
+
+const DEFAULT_GAS_BUFFER_PERCENT = 10;
+const DEFAULT_STUCK_AFTER_SECONDS = 120;
+const DEFAULT_MAX_FEE_BUMPS = 3;
+const RECEIPT_POLL_MS = 3_000;
+// Load-balanced RPCs can briefly miss a fresh transaction, so one miss is not a drop.
+const DROPPED_AFTER_POLLS = 5;
+
+export function toEvmCall(ix: TransactionIX | EvmCallIX): EvmCall {
+  return {
+    to: ix.to,
+    data: ix.data,
+    value: ix.value || "0",
+    gasPrice: "gasPrice" in ix ? ix.gasPrice || undefined : undefined,
+    gasLimit: "gasLimit" in ix ? ix.gasLimit : undefined,
+    chainId: "chainId" in ix ? ix.chainId : undefined,
+  };
+}
+
+/** The config settings of the backend's chain; empty for chains outside the registry. */
+export async function evmChainSettings(backend: EvmBackend): Promise<ChainSettings> {
+  const chain = chainByEvmId(await backend.chainId());
+  return chain ? getKanaConfig().chains[NetworkId[chain.id] as ChainName] ?? {} : {};
+}
+
+/** Gas limit for `call`: the estimate plus the buffer, or the API's limit when estimation fails. */
+async function gasLimitFor(backend: EvmBackend, call: EvmCall, options: SendOptions): Promise<bigint> {
+  const buffer = BigInt(Math.round((options.gasBufferPercent ?? DEFAULT_GAS_BUFFER_PERCENT) * 100));
+  try {
+    const estimate = await backend.estimateGas(call);
+    return estimate + (estimate * buffer) / BigInt(10_000);
+  } catch (err) {
+    if (call.gasLimit) return BigInt(call.gasLimit);
+    throw err;
+  }
+}
+
+/** Prices one call, reserves its nonce and broadcasts it, without waiting for inclusion. */
+export async function submitEvmCall(
+  backend: EvmBackend,
+  call: EvmCall,
+  label: string,
+  options: SendOptions = {}
+): Promise<PendingEvmCall> {
+  const fees = await resolveFees(backend, call.gasPrice, options.fees);
+  const gasLimit = await gasLimitFor(backend, call, options);
+  const nonces = await nonceManager(backend);
+
+  for (let attempt = 0; ; attempt++) {
+    const nonce = await nonces.reserve();
+    try {
+      const hash = await backend.send(call, gasLimit, fees, nonce);
+      nonces.sent(nonce);
+      console.log(`⏳ ${label} sent: ${hash} (nonce ${nonce}, ${describeFees(fees)})`);
+      return { label, hash, nonce, call, gasLimit, fees };
+    } catch (err) {
+      nonces.release(nonce);
+      // Something else used the wallet since the last sync; retry once from the chain's count.
+      if (attempt > 0 || !isNonceError(err)) throw err;
+      nonces.resync();
+    }
+  }
+}
+
+/** The first receipt found among `hashes`, all sent with one nonce. */
+async function firstReceipt(backend: EvmBackend, hashes: string[]): Promise<EvmReceipt | undefined> {
+  for (const hash of hashes) {
+    const receipt = await backend.receipt(hash);
+    if (receipt) return receipt;
+  }
+  return undefined;
+}
+
+/**
+ * Polls until `pending`, or one of its re-sends, is mined, and returns the
+ * receipt of the one that landed. Once it has been pending for
+ * `stuckAfterSeconds`, it is re-sent on the same nonce with bumped fees, up to
+ * `maxFeeBumps` times; with `onStuck: "cancel"` it is then replaced by a
+ * zero-value transfer to self.
+ *
+ * Throws a TransactionRevertedError when it reverts, a
+ * TransactionCancelledError when the cancel lands, a TransactionReplacedError
+ * when something else was mined on its nonce, and a TransactionDroppedError
+ * when the node no longer knows it; the last two resync the account's nonces.
+ */
+export async function confirmEvmCall(
+  backend: EvmBackend,
+  pending: PendingEvmCall,
+  options: SendOptions = {}
+): Promise<EvmReceipt> {
+  const { label, nonce } = pending;
+  const settings = await evmChainSettings(backend);
+  const stuckAfterMs = (options.stuckAfterSeconds ?? settings.stuckAfterSeconds ?? DEFAULT_STUCK_AFTER_SECONDS) * 1000;
+  const onStuck = options.onStuck ?? settings.onStuck ?? "bump";
+  const maxFeeBumps = options.maxFeeBumps ?? settings.maxFeeBumps ?? DEFAULT_MAX_FEE_BUMPS;
+
+  const hashes = [pending.hash];
+  let fees = pending.fees;
+  let bumps = 0;
+  let cancelHash: string | undefined;
+  let lastSentAt = Date.now();
+  let misses = 0;
+
+  for (;;) {
+    let receipt = await firstReceipt(backend, hashes);
+    if (!receipt && (await backend.transactionCount("latest")) > nonce) {
+      // The receipt may have landed between the two queries.
+      receipt = await firstReceipt(backend, hashes);
+      if (!receipt) {
+        (await nonceManager(backend)).resync();
+        throw new TransactionReplacedError(label, pending.hash, nonce);
+      }
+    }
+    if (receipt) {
+      if (receipt.hash === cancelHash) throw new TransactionCancelledError(label, pending.hash, receipt.hash);
+      if (receipt.status === "reverted") throw new TransactionRevertedError(label, receipt.hash);
+      if (receipt.hash !== pending.hash) console.log(`✅ ${label} landed as ${receipt.hash}`);
+      return receipt;
+    }
+
+    misses = (await backend.isKnown(hashes[hashes.length - 1])) ? 0 : misses + 1;
+    if (misses >= DROPPED_AFTER_POLLS) {
+      (await nonceManager(backend)).resync();
+      throw new TransactionDroppedError(label, pending.hash);
+    }
+
+    const cancel = onStuck === "cancel" && bumps >= maxFeeBumps && !cancelHash;
+    if (onStuck !== "wait" && Date.now() - lastSentAt >= stuckAfterMs && (bumps < maxFeeBumps || cancel)) {
+      fees = bumpFees(fees, await resolveFees(backend, pending.call.gasPrice, options.fees));
+      const call = cancel ? { to: await backend.address(), data: "0x", value: "0" } : pending.call;
+      const gasLimit = cancel ? BigInt(21_000) : pending.gasLimit;
+      const stuckFor = Math.round((Date.now() - lastSentAt) / 1000);
+      try {
+        const hash = await backend.send(call, gasLimit, fees, nonce);
+        hashes.push(hash);
+        if (cancel) cancelHash = hash;
+        console.log(`🚀 ${label} pending for ${stuckFor}s; ${cancel ? "cancel" : "re-sent"}: ${hash} (${describeFees(fees)})`);
+      } catch (err) {
+        // Usually the transaction was mined meanwhile; the next poll finds out.
+        console.warn(`⚠️ Could not re-send stuck ${label}:`, err instanceof Error ? err.message : err);
+      }
+      if (!cancel) bumps++;
+      lastSentAt = Date.now();
+    }
+    await new Promise((resolve) => setTimeout(resolve, RECEIPT_POLL_MS));
+  }
+}
+
+/** Runs `call` through `eth_call`; throws a SimulationRevertedError with the decoded reason when it reverts. */
+export async function simulateEvmCall(backend: EvmBackend, call: EvmCall, label: string): Promise<void> {
+  const result = await backend.simulate(call);
+  if (result.reverted) {
+    throw new SimulationRevertedError(label, describeRevert(decodeRevert(result.revertData)), result.revertData);
+  }
+}
+
+/** Simulates, sends and waits for one call; returns the hash that landed, which differs after a fee bump. */
+export async function sendEvmCall(
+  backend: EvmBackend,
+  call: EvmCall,
+  label: string,
+  options: SendOptions = {}
+): Promise<string> {
+  const [hash] = await sendEvmSequence(backend, [{ call, label }], options);
+  return hash;
+}
+
+/**
+ * Sends dependent calls on consecutive nonces and, once all are mined,
+ * returns the hashes that landed. A call that comes with the API's gasLimit
+ * is sent without waiting for the one before it: it could not be estimated
+ * until that one lands anyway, and the nonce order keeps it behind. Calls
+ * without a gasLimit wait, so that they can be estimated.
+ *
+ * A call sent on a settled account is simulated first, and nothing more is
+ * sent once one would revert. A call sent behind a pending one, like a swap
+ * behind its approval, is not: it would be simulated without the state the
+ * pending call creates. Pass `pipeline: false` to simulate every call.
+ */
+export async function sendEvmSequence(
+  backend: EvmBackend,
+  steps: EvmStep[],
+  options: SendOptions = {}
+): Promise<string[]> {
+  const pending: PendingEvmCall[] = [];
+  const landed: string[] = [];
+  const confirmSent = async () => {
+    while (landed.length < pending.length) {
+      landed.push((await confirmEvmCall(backend, pending[landed.length], options)).hash);
+    }
+  };
+
+  for (const step of steps) {
+    if (options.pipeline === false || !step.call.gasLimit) await confirmSent();
+    if (options.simulate !== false && landed.length === pending.length) {
+      await simulateEvmCall(backend, step.call, step.label);
+    }
+    pending.push(await submitEvmCall(backend, step.call, step.label, options));
+  }
+  await confirmSent();
+  return landed;
+}
+
+/* ------------------ APPROVALS ------------------ */
+
+export async function readAllowance(
+  backend: EvmBackend,
+  token: string,
+  owner: string,
+  spender: string
+): Promise<bigint> {
+  const result = await backend.call(token, encodeAllowance(owner, spender));
+  return BigInt(result === "0x" ? 0 : result);
+}
+
+/**
+ * The transactions that bring the allowance in `approveIX` up to what the
+ * instruction spends, sized by the approval policy: none when it already
+ * covers it, and a reset to zero first for tokens that refuse to change one
+ * non-zero allowance to another.
+ */
+export async function approvalSteps(
+  backend: EvmBackend,
+  approveIX: TransactionIX,
+  options: SendOptions = {}
+): Promise<EvmStep[]> {
+  const call = toEvmCall(approveIX);
+  const approval = decodeApprove(call.data);
+  // Not a plain ERC-20 approve, so there is no allowance to compare against.
+  if (!approval) return [{ call, label: "Approval" }];
+
+  const current = await readAllowance(backend, call.to, await backend.address(), approval.spender);
+  const required = options.spendAmount !== undefined ? BigInt(options.spendAmount) : approval.amount;
+  // An unlimited allowance counts as enough even after spends have worn it down.
+  if (current >= (required >= UNLIMITED_THRESHOLD ? UNLIMITED_THRESHOLD : required)) {
+    console.log(`✅ Allowance of ${approval.spender} on ${call.to} already covers ${required}`);
+    return [];
+  }
+
+  const policy = options.approvalPolicy ?? (await evmChainSettings(backend)).approvalPolicy ?? "exact";
+  const approve = (amount: bigint): EvmCall => ({ ...call, data: encodeApprove(approval.spender, amount) });
+  const target = approve(policy === "unlimited" ? MAX_UINT256 : required);
+
+  if (current > BigInt(0)) {
+    const refused = needsZeroFirst(call.to) || (await backend.estimateGas(target).then(() => false, () => true));
+    if (refused) return [{ call: approve(BigInt(0)), label: "Allowance reset" }, { call: target, label: "Approval" }];
+  }
+  return [{ call: target, label: "Approval" }];
+}
+
+/** Sends `approvalSteps`; returns the approval hash, or undefined when none was needed. */
+export async function approveIfNeeded(
+  backend: EvmBackend,
+  approveIX: TransactionIX,
+  options: SendOptions = {}
+): Promise<string | undefined> {
+  const hashes = await sendEvmSequence(backend, await approvalSteps(backend, approveIX, options), options);
+  return hashes[hashes.length - 1];
+}
+
+/* ------------------ INSTRUCTIONS ------------------ */
+
+/** Approves when the allowance falls short, then swaps; returns the swap hash. */
+export async function executeEvmSwap(
+  backend: EvmBackend,
+  instruction: EvmSwapInstruction,
+  options?: SendOptions
+): Promise<string> {
+  // Checked first so that an approval is never left behind without its swap.
+  if (!instruction.swapIX) throw new Error("No swap instructions found in API response");
+  const approvals = instruction.approveIX ? await approvalSteps(backend, instruction.approveIX, options) : [];
+  const hashes = await sendEvmSequence(
+    backend,
+    [...approvals, { call: toEvmCall(instruction.swapIX), label: "Swap" }],
+    options
+  );
+  return hashes[hashes.length - 1];
+}
+
+/** Approves when the allowance falls short, then sends the bridge transfer; returns its hash. */
+export async function executeEvmTransfer(
+  backend: EvmBackend,
+  instruction: EvmTransferInstruction,
+  options?: SendOptions
+): Promise<string> {
+  const approvals = instruction.approveIX ? await approvalSteps(backend, instruction.approveIX, options) : [];
+  const hashes = await sendEvmSequence(
+    backend,
+    [...approvals, { call: toEvmCall(instruction.transferIX), label: "Transfer" }],
+    options
+  );
+  return hashes[hashes.length - 1];
+}
+
+/** Sends a claim or redeem call; returns its hash. */
+export async function executeEvmClaim(
+  backend: EvmBackend,
+  instruction: EvmClaimInstruction,
+  options?: SendOptions
+): Promise<string> {
+  return sendEvmCall(backend, toEvmCall(instruction.claimIx), "Claim", options);
+}
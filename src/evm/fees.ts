@@ -0,0 +1,147 @@
+import { chainByEvmId } from "../chains";
+import { ChainName, FeeMode, FeeSpeed, getKanaConfig } from "../config";
+import { NetworkId } from "../constant";
+
+/* ------------------ TYPES ------------------ */
+
+/** Fixed fees, in wei; `gasPrice` sends a legacy transaction. */
+export type CustomFees =
+  | { maxFeePerGas: string | bigint; maxPriorityFeePerGas: string | bigint }
+  | { gasPrice: string | bigint };
+
+export type FeeStrategy = FeeSpeed | CustomFees;
+
+export interface FeeOptions {
+  /** Overrides the chain's `feeMode` setting. */
+  mode?: FeeMode;
+  /** Overrides the chain's `feeSpeed` setting. */
+  strategy?: FeeStrategy;
+}
+
+export type EvmFees =
+  | { type: "legacy"; gasPrice: bigint }
+  | { type: "eip1559"; maxFeePerGas: bigint; maxPriorityFeePerGas: bigint };
+
+/** `eth_feeHistory`; `baseFeePerGas` has one more entry than `reward`, for the next block. */
+export interface FeeHistory {
+  baseFeePerGas: bigint[];
+  reward: bigint[][];
+}
+
+/** The fee queries the executor needs from an EVM backend. */
+export interface FeeSource {
+  chainId(): Promise<number>;
+  feeHistory(blockCount: number, rewardPercentiles: number[]): Promise<FeeHistory>;
+  gasPrice(): Promise<bigint>;
+}
+
+/* ------------------ STRATEGIES ------------------ */
+
+const FEE_HISTORY_BLOCKS = 10;
+
+const SPEEDS: Record<FeeSpeed, { percentile: number; baseFeePercent: number }> = {
+  slow: { percentile: 10, baseFeePercent: 125 },
+  normal: { percentile: 50, baseFeePercent: 150 },
+  fast: { percentile: 90, baseFeePercent: 200 },
+};
+const PERCENTILES = Object.values(SPEEDS).map((speed) => speed.percentile);
+
+function median(values: bigint[]): bigint {
+  if (!values.length) return BigInt(0);
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * Type-2 fees for `speed`: the median tip paid at the speed's percentile over
+ * recent blocks, and a fee cap that survives a few blocks of base-fee rises.
+ */
+export function feesFromHistory(history: FeeHistory, speed: FeeSpeed): EvmFees {
+  const column = PERCENTILES.indexOf(SPEEDS[speed].percentile);
+  const maxPriorityFeePerGas = median(history.reward.map((rewards) => rewards[column] ?? BigInt(0)));
+  const nextBaseFee = history.baseFeePerGas[history.baseFeePerGas.length - 1] ?? BigInt(0);
+  const maxFeePerGas = (nextBaseFee * BigInt(SPEEDS[speed].baseFeePercent)) / BigInt(100) + maxPriorityFeePerGas;
+  return { type: "eip1559", maxFeePerGas, maxPriorityFeePerGas };
+}
+
+/* ------------------ RESOLUTION ------------------ */
+
+/** The chain's `feeMode` / `feeSpeed` settings, with `override` on top. */
+export function feeOptions(chain: NetworkId | undefined, override: FeeOptions = {}): FeeOptions {
+  const settings = chain !== undefined ? getKanaConfig().chains[NetworkId[chain] as ChainName] ?? {} : {};
+  return {
+    mode: override.mode ?? settings.feeMode,
+    strategy: override.strategy ?? settings.feeSpeed,
+  };
+}
+
+/**
+ * Fees for the next transaction on the backend's chain. Legacy mode pays the
+ * API's `gasPrice` when it sent one, otherwise the node's gas price; without
+ * a configured mode, chains whose blocks carry a base fee get type-2 fees.
+ */
+export async function resolveFees(
+  source: FeeSource,
+  apiGasPrice: string | undefined,
+  override?: FeeOptions
+): Promise<EvmFees> {
+  const chainId = await source.chainId();
+  const { mode, strategy = "normal" } = feeOptions(chainByEvmId(chainId)?.id, override);
+
+  if (typeof strategy === "object") {
+    return "gasPrice" in strategy
+      ? { type: "legacy", gasPrice: BigInt(strategy.gasPrice) }
+      : {
+          type: "eip1559",
+          maxFeePerGas: BigInt(strategy.maxFeePerGas),
+          maxPriorityFeePerGas: BigInt(strategy.maxPriorityFeePerGas),
+        };
+  }
+
+  if (mode !== "legacy") {
+    // Nodes without eth_feeHistory are treated as legacy unless type-2 was asked for.
+    const history = await source.feeHistory(FEE_HISTORY_BLOCKS, PERCENTILES).catch((err) => {
+      if (mode === "eip1559") throw err;
+      return undefined;
+    });
+    if (history?.baseFeePerGas.some((fee) => fee > BigInt(0))) return feesFromHistory(history, strategy);
+    if (mode === "eip1559") throw new Error(`Chain ${chainId} reports no base fee; set its feeMode to "legacy"`);
+  }
+
+  return { type: "legacy", gasPrice: apiGasPrice ? BigInt(apiGasPrice) : await source.gasPrice() };
+}
+
+export function describeFees(fees: EvmFees): string {
+  const gwei = (wei: bigint) => `${(Number(wei) / 1e9).toFixed(2)} gwei`;
+  return fees.type === "legacy"
+    ? `gas price ${gwei(fees.gasPrice)}`
+    : `max fee ${gwei(fees.maxFeePerGas)}, priority ${gwei(fees.maxPriorityFeePerGas)}`;
+}
+
+/* ------------------ REPLACEMENT ------------------ */
+
+// Nodes only accept a replacement priced at least 10% above the pending transaction.
+const FEE_BUMP_PERCENT = 20;
+
+/**
+ * Fees for re-sending a pending transaction: `previous` raised by
+ * FEE_BUMP_PERCENT, or the `current` network fees when those are higher.
+ * Keeps the transaction type of `previous`.
+ */
+export function bumpFees(previous: EvmFees, current: EvmFees): EvmFees {
+  const bump = (wei: bigint, floor: bigint) => {
+    const bumped = (wei * BigInt(100 + FEE_BUMP_PERCENT)) / BigInt(100);
+    return bumped > floor ? bumped : floor;
+  };
+  const currentCap = current.type === "legacy" ? current.gasPrice : current.maxFeePerGas;
+  if (previous.type === "legacy") return { type: "legacy", gasPrice: bump(previous.gasPrice, currentCap) };
+
+  const currentTip = current.type === "legacy" ? current.gasPrice : current.maxPriorityFeePerGas;
+  const maxPriorityFeePerGas = bump(previous.maxPriorityFeePerGas, currentTip);
+  const maxFeePerGas = bump(previous.maxFeePerGas, currentCap);
+  return {
+    type: "eip1559",
+    maxFeePerGas: maxFeePerGas > maxPriorityFeePerGas ? maxFeePerGas : maxPriorityFeePerGas,
+    maxPriorityFeePerGas,
+  };
+}
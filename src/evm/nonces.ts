@@ -0,0 +1,98 @@
+/* ------------------ SOURCE ------------------ */
+
+/** The account queries the nonce manager needs from an EVM backend. */
+export interface NonceSource {
+  address(): Promise<string>;
+  chainId(): Promise<number>;
+  /** Transactions sent from the account, mined ("latest") or including the mempool ("pending"). */
+  transactionCount(blockTag: "latest" | "pending"): Promise<number>;
+}
+
+/* ------------------ MANAGER ------------------ */
+
+/**
+ * Hands out the nonces of one account on one chain. Reservations are
+ * serialized, so flows sharing a wallet never pick the same nonce, and a
+ * sequence of dependent transactions can be sent without waiting for each
+ * receipt. The chain is only asked on first use and after `resync`.
+ */
+export class NonceManager {
+  private next?: number;
+  // Reserved but not yet broadcast; a resync must not hand these out again.
+  private readonly unsent = new Set<number>();
+  // Released below `next`; handed out again, lowest first, before `next`.
+  private readonly released = new Set<number>();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly source: NonceSource) {}
+
+  reserve(): Promise<number> {
+    const reservation = this.queue.then(async () => {
+      if (this.next === undefined) {
+        const pending = await this.source.transactionCount("pending");
+        this.next = Math.max(pending, ...[...this.unsent].map((nonce) => nonce + 1));
+        // Below the pending count the chain has the nonce; from `next` on it is handed out anyway.
+        for (const nonce of this.released) {
+          if (nonce < pending || nonce >= this.next) this.released.delete(nonce);
+        }
+      }
+      const reused = this.released.size ? Math.min(...this.released) : undefined;
+      if (reused !== undefined) this.released.delete(reused);
+      const nonce = reused ?? this.next++;
+      this.unsent.add(nonce);
+      return nonce;
+    });
+    this.queue = reservation.catch(() => undefined);
+    return reservation;
+  }
+
+  /** The transaction with `nonce` was accepted by the node. */
+  sent(nonce: number): void {
+    this.unsent.delete(nonce);
+  }
+
+  /**
+   * `nonce` was never broadcast; hand it out again rather than leave a gap.
+   * Only the latest reservation rolls the count back; an earlier one is kept
+   * for the next reservation, since later nonces may already be in flight.
+   */
+  release(nonce: number): void {
+    this.unsent.delete(nonce);
+    if (this.next === nonce + 1) this.next = nonce;
+    else this.released.add(nonce);
+  }
+
+  /**
+   * Forgets the local count, so the next reservation starts from the chain's
+   * pending count. Called after a transaction was dropped or replaced, or the
+   * node rejected a nonce, e.g. because another process used the wallet.
+   */
+  resync(): void {
+    this.next = undefined;
+  }
+}
+
+/* ------------------ REGISTRY ------------------ */
+
+const managers = new Map<string, NonceManager>();
+
+/** The process-wide manager of the backend's account; every EVM send path goes through it. */
+export async function nonceManager(source: NonceSource): Promise<NonceManager> {
+  const key = `${await source.chainId()}:${(await source.address()).toLowerCase()}`;
+  let manager = managers.get(key);
+  if (!manager) {
+    manager = new NonceManager(source);
+    managers.set(key, manager);
+  }
+  return manager;
+}
+
+/**
+ * Node errors that mean the nonce we sent is already taken. "already known"
+ * is left out on purpose: that transaction itself is pending, and sending it
+ * again on a fresh nonce would run it twice.
+ */
+export function isNonceError(err: unknown): boolean {
+  const message = err instanceof Error ? err.message : String(err);
+  return /nonce too low|nonce has already been used|NONCE_EXPIRED|replacement (transaction )?underpriced/i.test(message);
+}
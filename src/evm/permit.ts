@@ -0,0 +1,203 @@
+import { ethers } from "ethers";
+import { EVM_NATIVE_TOKEN } from "../chains";
+import { ApprovalMethod, ApprovalPolicy } from "../config";
+import { KANA_DIAMOND_ADDRESS } from "../constant";
+import { maxInput } from "../swapAmounts";
+import { SignedPermit, SwapQuote } from "../types";
+import { MAX_UINT256 } from "./erc20";
+import { EvmBackend, TypedData, evmChainSettings, readAllowance } from "./executor";
+
+/* ------------------ CONTRACTS ------------------ */
+
+/** Uniswap's Permit2, deployed at the same address on every chain. */
+export const PERMIT2_ADDRESS = "0x000000000022D473030F116dDEE9F6B43aC78BA3";
+
+const MAX_UINT160 = (BigInt(1) << BigInt(160)) - BigInt(1);
+
+// Signatures stay valid for this long; the swap is sent right after signing.
+const PERMIT_DEADLINE_SECONDS = 30 * 60;
+
+const ERC2612 = new ethers.utils.Interface([
+  "function nonces(address owner) view returns (uint256)",
+  "function DOMAIN_SEPARATOR() view returns (bytes32)",
+  "function name() view returns (string)",
+  "function version() view returns (string)",
+]);
+
+const PERMIT2 = new ethers.utils.Interface([
+  "function allowance(address owner, address token, address spender) view returns (uint160 amount, uint48 expiration, uint48 nonce)",
+]);
+
+/** Calls a view function; undefined when the contract lacks it or reverts. */
+async function read(
+  backend: EvmBackend,
+  to: string,
+  contract: ethers.utils.Interface,
+  method: string,
+  args: unknown[] = []
+): Promise<ethers.utils.Result | undefined> {
+  try {
+    const data = await backend.call(to, contract.encodeFunctionData(method, args));
+    return contract.decodeFunctionResult(method, data);
+  } catch {
+    return undefined;
+  }
+}
+
+/* ------------------ SIGNING ------------------ */
+
+export interface PermitRequest {
+  token: string;
+  /** Base units the swap spends. */
+  amount: string | bigint;
+  /** Defaults to the Kana diamond, which redeems the permit in the swap. */
+  spender?: string;
+}
+
+export interface PermitOptions {
+  /** Overrides the chain's `approvalMethod` setting. */
+  approvalMethod?: ApprovalMethod;
+  /** Overrides the chain's `approvalPolicy` setting. */
+  approvalPolicy?: ApprovalPolicy;
+}
+
+interface PermitContext {
+  owner: string;
+  spender: string;
+  token: string;
+  /** What the swap spends. */
+  required: bigint;
+  /** What to sign for, per the approval policy. */
+  amount: bigint;
+  chainId: number;
+  deadline: number;
+}
+
+/**
+ * The token's own EIP-712 domain, when it has `permit`. The version is not
+ * exposed by most tokens, so candidates are checked against DOMAIN_SEPARATOR.
+ */
+async function erc2612Domain(
+  backend: EvmBackend,
+  token: string,
+  chainId: number
+): Promise<TypedData["domain"] | undefined> {
+  const separator = await read(backend, token, ERC2612, "DOMAIN_SEPARATOR");
+  const name = await read(backend, token, ERC2612, "name");
+  if (!separator || !name) return undefined;
+
+  const declared = await read(backend, token, ERC2612, "version");
+  const versions = [...(declared ? [declared[0] as string] : []), "1", "2"];
+  return versions
+    .map((version) => ({ name: name[0] as string, version, chainId, verifyingContract: token }))
+    .find((domain) => ethers.utils._TypedDataEncoder.hashDomain(domain) === separator[0]);
+}
+
+async function signErc2612(backend: EvmBackend, context: PermitContext): Promise<SignedPermit | undefined> {
+  const { owner, spender, token, amount, chainId, deadline } = context;
+  const nonces = await read(backend, token, ERC2612, "nonces", [owner]);
+  const domain = nonces && (await erc2612Domain(backend, token, chainId));
+  if (!nonces || !domain) return undefined;
+
+  const nonce = nonces[0].toString();
+  const signature = await backend.signTypedData({
+    domain,
+    types: {
+      Permit: [
+        { name: "owner", type: "address" },
+        { name: "spender", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+      ],
+    },
+    primaryType: "Permit",
+    message: { owner, spender, value: amount.toString(), nonce, deadline },
+  });
+  return { kind: "eip2612", token, owner, spender, amount: amount.toString(), nonce, deadline, signature };
+}
+
+/** Permit2 only helps once the token is approved to it; that approval is a transaction too. */
+async function signPermit2(backend: EvmBackend, context: PermitContext): Promise<SignedPermit | undefined> {
+  const { owner, spender, token, required, chainId, deadline } = context;
+  const granted = await readAllowance(backend, token, owner, PERMIT2_ADDRESS);
+  if (granted < required) return undefined;
+  const amount = [context.amount, MAX_UINT160, granted].reduce((a, b) => (b < a ? b : a));
+  const allowance = await read(backend, PERMIT2_ADDRESS, PERMIT2, "allowance", [owner, token, spender]);
+  if (!allowance) return undefined;
+
+  const nonce = allowance.nonce.toString();
+  const signature = await backend.signTypedData({
+    domain: { name: "Permit2", chainId, verifyingContract: PERMIT2_ADDRESS },
+    types: {
+      PermitSingle: [
+        { name: "details", type: "PermitDetails" },
+        { name: "spender", type: "address" },
+        { name: "sigDeadline", type: "uint256" },
+      ],
+      PermitDetails: [
+        { name: "token", type: "address" },
+        { name: "amount", type: "uint160" },
+        { name: "expiration", type: "uint48" },
+        { name: "nonce", type: "uint48" },
+      ],
+    },
+    primaryType: "PermitSingle",
+    message: {
+      details: { token, amount: amount.toString(), expiration: deadline, nonce },
+      spender,
+      sigDeadline: deadline,
+    },
+  });
+  return { kind: "permit2", token, owner, spender, amount: amount.toString(), nonce, deadline, signature };
+}
+
+/**
+ * Signs an allowance for `request` when the chain's `approvalMethod` is
+ * "permit": EIP-2612 when the token supports it, otherwise Permit2 when the
+ * token is already approved to it. Resolves with undefined when no permit is
+ * needed or possible, so the instruction keeps its `approveIX`.
+ */
+export async function signPermit(
+  backend: EvmBackend,
+  request: PermitRequest,
+  options: PermitOptions = {}
+): Promise<SignedPermit | undefined> {
+  const settings = await evmChainSettings(backend);
+  if ((options.approvalMethod ?? settings.approvalMethod ?? "approve") !== "permit") return undefined;
+  if (request.token.toLowerCase() === EVM_NATIVE_TOKEN) return undefined;
+
+  const owner = await backend.address();
+  const spender = request.spender ?? KANA_DIAMOND_ADDRESS;
+  const required = BigInt(request.amount);
+  if ((await readAllowance(backend, request.token, owner, spender)) >= required) return undefined;
+
+  const unlimited = (options.approvalPolicy ?? settings.approvalPolicy) === "unlimited";
+  const context: PermitContext = {
+    owner,
+    spender,
+    token: request.token,
+    required,
+    amount: unlimited ? MAX_UINT256 : required,
+    chainId: await backend.chainId(),
+    deadline: Math.floor(Date.now() / 1000) + PERMIT_DEADLINE_SECONDS,
+  };
+
+  const permit = (await signErc2612(backend, context)) ?? (await signPermit2(backend, context));
+  console.log(
+    permit
+      ? `✍️ Signed ${permit.kind} permit for ${permit.token}`
+      : `ℹ️ ${request.token} supports no permit; approving with a transaction`
+  );
+  return permit;
+}
+
+/** `signPermit` for what a swap quote spends at its slippage limit. */
+export function signSwapPermit(
+  backend: EvmBackend,
+  quote: SwapQuote,
+  options?: PermitOptions
+): Promise<SignedPermit | undefined> {
+  if (!quote.sourceToken) return Promise.resolve(undefined);
+  return signPermit(backend, { token: quote.sourceToken, amount: maxInput(quote) }, options);
+}
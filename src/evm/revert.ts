@@ -0,0 +1,117 @@
+import { ethers } from "ethers";
+
+/* ------------------ KNOWN ERRORS ------------------ */
+
+const SLIPPAGE = "the price moved past the slippage tolerance; fetch a new quote";
+const DEADLINE = "the swap deadline passed; fetch a new quote";
+const FUNDS = "the wallet's balance or allowance is too low";
+
+// Custom errors from the routers, tokens and permit contracts that swaps go through.
+const CUSTOM_ERRORS: Record<string, string> = {
+  // Uniswap Universal Router
+  "V2TooLittleReceived()": SLIPPAGE,
+  "V2TooMuchRequested()": SLIPPAGE,
+  "V3TooLittleReceived()": SLIPPAGE,
+  "V3TooMuchRequested()": SLIPPAGE,
+  "TransactionDeadlinePassed()": DEADLINE,
+  "InsufficientETH()": "less native token was sent than the swap needs",
+  "ExecutionFailed(uint256 commandIndex, bytes message)": "a router command failed",
+  // Permit2
+  "AllowanceExpired(uint256 deadline)": "the Permit2 allowance expired",
+  "InsufficientAllowance(uint256 amount)": "the Permit2 allowance is too low",
+  "InvalidSignature()": "the permit signature does not match",
+  "SignatureExpired(uint256 signatureDeadline)": "the permit expired; sign a new one",
+  "InvalidNonce()": "the permit nonce was already used",
+  // OpenZeppelin 5 tokens
+  "ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)": "the wallet's token balance is too low",
+  "ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)": "the allowance is too low",
+  "SafeERC20FailedOperation(address token)": "a token transfer failed",
+};
+
+// Error(string) reasons whose cause is not obvious from the text.
+const REASONS: Record<string, string> = {
+  STF: FUNDS,
+  TF: "a token transfer failed",
+  "Too little received": SLIPPAGE,
+  "Too much requested": SLIPPAGE,
+  "Transaction too old": DEADLINE,
+  "UniswapV2Router: INSUFFICIENT_OUTPUT_AMOUNT": SLIPPAGE,
+  "UniswapV2Router: EXCESSIVE_INPUT_AMOUNT": SLIPPAGE,
+  "UniswapV2Router: EXPIRED": DEADLINE,
+  "TransferHelper: TRANSFER_FROM_FAILED": FUNDS,
+  "ERC20: transfer amount exceeds balance": "the wallet's token balance is too low",
+  "ERC20: transfer amount exceeds allowance": "the allowance is too low",
+  "ERC20: insufficient allowance": "the allowance is too low",
+};
+
+// Solidity's built-in Panic(uint256) codes.
+const PANICS: Record<number, string> = {
+  0x01: "assertion failed",
+  0x11: "arithmetic overflow or underflow",
+  0x12: "division by zero",
+  0x21: "invalid enum value",
+  0x22: "corrupt storage byte array",
+  0x31: "pop on an empty array",
+  0x32: "array index out of bounds",
+  0x41: "out of memory",
+  0x51: "call to an uninitialized function",
+};
+
+// Solidity's built-in errors; ethers does not let an Interface declare these.
+const ERROR_SELECTOR = "0x08c379a0";
+const PANIC_SELECTOR = "0x4e487b71";
+
+const ERRORS = new ethers.utils.Interface(Object.keys(CUSTOM_ERRORS).map((signature) => `error ${signature}`));
+
+/* ------------------ DECODING ------------------ */
+
+export interface RevertReason {
+  /** The error as the contract raised it, e.g. `Error("STF")` or `V2TooLittleReceived()`. */
+  error: string;
+  /** What it usually means, for errors listed above. */
+  hint?: string;
+}
+
+/** Decodes revert data from `eth_call`; unknown custom errors keep their selector. */
+export function decodeRevert(data: string | undefined): RevertReason {
+  if (!data || data === "0x") return { error: "reverted without a reason" };
+  const selector = data.slice(0, 10).toLowerCase();
+  const payload = `0x${data.slice(10)}`;
+
+  try {
+    if (selector === ERROR_SELECTOR) {
+      const reason: string = ethers.utils.defaultAbiCoder.decode(["string"], payload)[0];
+      return { error: `Error(${JSON.stringify(reason)})`, hint: REASONS[reason] };
+    }
+    if (selector === PANIC_SELECTOR) {
+      const code = ethers.utils.defaultAbiCoder.decode(["uint256"], payload)[0].toNumber();
+      return { error: `Panic(0x${code.toString(16)})`, hint: PANICS[code] };
+    }
+  } catch {
+    // Malformed payload; reported below as an unknown error.
+  }
+
+  let parsed: ReturnType<typeof ERRORS.parseError>;
+  try {
+    parsed = ERRORS.parseError(data);
+  } catch {
+    return { error: `unknown error ${selector}${payload !== "0x" ? ` (${payload})` : ""}` };
+  }
+
+  switch (parsed.name) {
+    case "ExecutionFailed": {
+      // The Universal Router wraps the failing command's own revert.
+      const inner = decodeRevert(parsed.args.message);
+      return { error: `command ${parsed.args.commandIndex}: ${inner.error}`, hint: inner.hint };
+    }
+    default: {
+      const key = Object.keys(CUSTOM_ERRORS).find((signature) => signature.startsWith(`${parsed.name}(`));
+      const args = parsed.args.map((arg: unknown) => String(arg)).join(", ");
+      return { error: `${parsed.name}(${args})`, hint: key && CUSTOM_ERRORS[key] };
+    }
+  }
+}
+
+export function describeRevert({ error, hint }: RevertReason): string {
+  return hint ? `${error}: ${hint}` : error;
+}
@@ -0,0 +1,101 @@
+import {
+  BaseError,
+  ExecutionRevertedError,
+  TransactionNotFoundError,
+  TransactionReceiptNotFoundError,
+  isHex,
+  type Account,
+  type Address,
+  type Chain,
+  type Hex,
+  type PublicClient,
+  type Transport,
+  type WalletClient,
+} from "viem";
+import { EvmBackend, EvmCall } from "./executor";
+import { EvmFees } from "./fees";
+
+function toRequest(call: EvmCall) {
+  return {
+    to: call.to as Address,
+    data: call.data as Hex,
+    value: BigInt(call.value ?? 0),
+  };
+}
+
+function toFeeFields(fees: EvmFees) {
+  return fees.type === "legacy"
+    ? { type: "legacy" as const, gasPrice: fees.gasPrice }
+    : {
+        type: "eip1559" as const,
+        maxFeePerGas: fees.maxFeePerGas,
+        maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+      };
+}
+
+/** Executor backend over a viem wallet client (with its account and chain) and a public client. */
+export function viemBackend(
+  walletClient: WalletClient<Transport, Chain, Account>,
+  publicClient: PublicClient
+): EvmBackend {
+  const { account, chain } = walletClient;
+
+  return {
+    address: async () => account.address,
+    chainId: async () => chain.id,
+    async call(to, data) {
+      const result = await publicClient.call({ to: to as Address, data: data as Hex });
+      return result.data ?? "0x";
+    },
+    async feeHistory(blockCount, rewardPercentiles) {
+      const history = await publicClient.getFeeHistory({ blockCount, rewardPercentiles });
+      return { baseFeePerGas: history.baseFeePerGas, reward: history.reward ?? [] };
+    },
+    gasPrice: () => publicClient.getGasPrice(),
+    transactionCount: (blockTag) => publicClient.getTransactionCount({ address: account.address, blockTag }),
+    async simulate(call) {
+      try {
+        await publicClient.call({ account: account.address, ...toRequest(call) });
+        return { reverted: false };
+      } catch (err) {
+        if (!(err instanceof BaseError)) throw err;
+        // The innermost cause is the node's error, which carries the revert data.
+        const root = err.walk() as { data?: unknown };
+        const raw = typeof root.data === "object" ? (root.data as { data?: unknown } | null)?.data : root.data;
+        // Other node errors may carry non-hex `data`; only revert data makes this a revert.
+        const data = typeof raw === "string" && isHex(raw) ? raw : undefined;
+        if (!data && !err.walk((cause) => cause instanceof ExecutionRevertedError)) throw err;
+        return { reverted: true, revertData: data };
+      }
+    },
+    estimateGas: (call) => publicClient.estimateGas({ account: account.address, ...toRequest(call) }),
+    signTypedData: ({ domain, types, primaryType, message }) =>
+      walletClient.signTypedData({
+        account,
+        domain: { ...domain, verifyingContract: domain.verifyingContract as Address },
+        types,
+        primaryType,
+        message,
+      }),
+    send: (call, gasLimit, fees, nonce) =>
+      walletClient.sendTransaction({ account, chain, ...toRequest(call), ...toFeeFields(fees), gas: gasLimit, nonce }),
+    async receipt(hash) {
+      try {
+        const receipt = await publicClient.getTransactionReceipt({ hash: hash as Hex });
+        return { hash, status: receipt.status, blockNumber: Number(receipt.blockNumber) };
+      } catch (err) {
+        if (err instanceof TransactionReceiptNotFoundError) return undefined;
+        throw err;
+      }
+    },
+    async isKnown(hash) {
+      try {
+        await publicClient.getTransaction({ hash: hash as Hex });
+        return true;
+      } catch (err) {
+        if (err instanceof TransactionNotFoundError) return false;
+        throw err;
+      }
+    },
+  };
+}
@@ -0,0 +1,73 @@
+import { getChain } from "./chains";
+import { NetworkId } from "./constant";
+import { toBaseUnits } from "./quoteSelection";
+import { CrossChainQuote, SwapQuote } from "./types";
+
+/* ------------------ PRICES ------------------ */
+
+/**
+ * What one whole native token of `chain` buys of `token`, in `token` base
+ * units; undefined when there is no price.
+ */
+export type NativePrice = (chain: NetworkId, token: string) => Promise<bigint | undefined>;
+
+export const isNativeToken = (chain: NetworkId, token: string) =>
+  token.toLowerCase() === getChain(chain).nativeToken.address.toLowerCase();
+
+/** `amount` of `chain`'s native token in `token` base units; zero when unpriced. */
+async function nativeToToken(chain: NetworkId, token: string, amount: bigint, price: NativePrice): Promise<bigint> {
+  if (amount === BigInt(0) || isNativeToken(chain, token)) return amount;
+  const perNative = await price(chain, token);
+  if (perNative === undefined) return BigInt(0);
+  return (amount * perNative) / BigInt(10) ** BigInt(getChain(chain).nativeToken.decimals);
+}
+
+/* ------------------ ESTIMATES ------------------ */
+
+/** The tokens of a same-chain quote request, as addresses. */
+export interface SwapPair {
+  chain: NetworkId;
+  inputToken: string;
+  outputToken: string;
+}
+
+/**
+ * The route's `gasEstimate` (native base units) in output-token base units.
+ * Routes that spend the native token are converted at their own price;
+ * others at `price`. Routes without a gas estimate cost zero.
+ */
+export async function swapGasCost(quote: SwapQuote, pair: SwapPair, price: NativePrice): Promise<bigint> {
+  const gas = toBaseUnits(quote.gasEstimate);
+  const amountIn = toBaseUnits(quote.amountIn);
+  if (gas === BigInt(0) || isNativeToken(pair.chain, pair.outputToken)) return gas;
+  if (isNativeToken(pair.chain, pair.inputToken) && amountIn > BigInt(0)) {
+    return (gas * toBaseUnits(quote.amountOut)) / amountIn;
+  }
+  return nativeToToken(pair.chain, pair.outputToken, gas, price);
+}
+
+/** The tokens of a cross-chain quote request, as addresses. */
+export interface CrossChainPair {
+  sourceChain: NetworkId;
+  targetChain: NetworkId;
+  sourceToken: string;
+  targetToken: string;
+}
+
+/**
+ * `gasEstimate.source` plus `gasEstimate.target` in target-token base units.
+ * Target gas is priced on the target chain; source gas is priced in the
+ * source token, then carried over at the route's own rate.
+ */
+export async function crossChainGasCost(
+  quote: CrossChainQuote,
+  pair: CrossChainPair,
+  price: NativePrice
+): Promise<bigint> {
+  const target = await nativeToToken(pair.targetChain, pair.targetToken, toBaseUnits(quote.gasEstimate?.target), price);
+
+  const inAmount = toBaseUnits(quote.inAmount);
+  if (inAmount === BigInt(0)) return target;
+  const source = await nativeToToken(pair.sourceChain, pair.sourceToken, toBaseUnits(quote.gasEstimate?.source), price);
+  return target + (source * toBaseUnits(quote.outAmount)) / inAmount;
+}
@@ -1,10 +1,423 @@
-import axios from "axios";
-
-export const kanaClient = axios.create({
-  baseURL: "https://ag.kanalabs.io",
-  timeout: 15_000,
-  headers: {
-    "Content-Type": "application/json",
-    "X-API-KEY": process.env.XYRA_API_KEY!,
-  },
-});
+import axios, { AxiosInstance } from "axios";
+import { Cassette, activeCassette, installCassette } from "./cassette";
+import { getChain } from "./chains";
+import { getKanaConfig } from "./config";
+import { KanaResponseError, NoQuoteError, PermitShortfallError } from "./errors";
+import { CrossChainPair, NativePrice, SwapPair, crossChainGasCost, swapGasCost } from "./gasCost";
+import { CacheSource, QuoteCache, markIndicative, swapQuoteKey } from "./quoteCache";
+import { checkQuoteLimits, ensureFreshQuote, trackQuote } from "./quoteGuard";
+import {
+  QuoteSelection,
+  SelectionOptions,
+  crossChainQuoteFields,
+  maxOut,
+  minIn,
+  selectQuote,
+  swapQuoteFields,
+  toBaseUnits,
+} from "./quoteSelection";
+import {
+  allowedByProvider,
+  crossChainProviderLegs,
+  providerPolicy,
+  swapProviderLegs,
+} from "./providers";
+import { RetryPolicy, installRetryPolicy } from "./retry";
+import { isAutoSlippage, quotedSlippage } from "./slippage";
+import { maxInput, minimumOutput, withinInputCap } from "./swapAmounts";
+import { tokenAddress } from "./tokens";
+import {
+  Schema,
+  SchemaIssue,
+  array,
+  crossChainQuoteSchema,
+  swapQuoteSchema,
+} from "./schemas";
+import {
+  BuiltInstruction,
+  ClaimInstruction,
+  ClaimParams,
+  CrossChainQuote,
+  CrossChainQuoteParams,
+  CrossChainTransferInstruction,
+  CrossChainTransferParams,
+  RedeemInstruction,
+  RedeemParams,
+  SwapInstruction,
+  SwapInstructionParams,
+  SwapQuote,
+  SwapQuoteParams,
+  SwapRoute,
+} from "./types";
+
+export interface KanaClientOptions {
+  baseURL?: string;
+  apiKey?: string;
+  timeout?: number;
+  /** Retry policy for 429/5xx responses; `false` disables retries. */
+  retry?: Partial<RetryPolicy> | false;
+  /** Records or replays traffic; defaults to the one set by `KANA_CASSETTE`. */
+  cassette?: Cassette;
+}
+
+/** A cached selection, with where it came from and how old it is. */
+export interface IndicativeSelection<T> extends QuoteSelection<T> {
+  source: CacheSource;
+  fetchedAt: number;
+}
+
+/* ------------------ RESPONSE VALIDATION ------------------ */
+
+function keysOf(value: unknown): string[] {
+  return typeof value === "object" && value !== null ? Object.keys(value) : [];
+}
+
+export function parseKanaData<T>(
+  endpoint: string,
+  body: unknown,
+  schema: Schema<T>
+): T {
+  if (typeof body !== "object" || body === null || !("data" in body)) {
+    throw new KanaResponseError(
+      endpoint,
+      "data",
+      "present",
+      body === null ? "null" : typeof body,
+      keysOf(body)
+    );
+  }
+
+  try {
+    return schema.parse((body as { data: unknown }).data, "data");
+  } catch (err) {
+    if (!(err instanceof SchemaIssue)) throw err;
+    throw new KanaResponseError(
+      endpoint,
+      err.path,
+      err.expected,
+      err.received,
+      err.keys ?? []
+    );
+  }
+}
+
+/* ------------------ KANA CLIENT ------------------ */
+
+export class KanaClient {
+  readonly http: AxiosInstance;
+  private readonly quoteCache = new QuoteCache<QuoteSelection<SwapQuote>>(
+    () => getKanaConfig().quotes.cacheTtlSeconds * 1000
+  );
+
+  constructor(options: KanaClientOptions = {}) {
+    this.http = axios.create({
+      baseURL: options.baseURL,
+      timeout: options.timeout ?? 15_000,
+      headers: {
+        "Content-Type": "application/json",
+        "X-API-KEY": options.apiKey,
+      },
+    });
+
+    // Fill in what the caller left out once a request goes out, so creating
+    // a client never loads the config.
+    if (options.baseURL === undefined || options.apiKey === undefined) {
+      this.http.interceptors.request.use((config) => {
+        const { kana } = getKanaConfig();
+        config.baseURL ??= kana.apiUrl;
+        if (options.apiKey === undefined && kana.apiKey) config.headers.set("X-API-KEY", kana.apiKey);
+        return config;
+      });
+    }
+
+    // Picked when a request goes out, as the environment's cassette needs the config.
+    installCassette(this.http, options.cassette ?? activeCassette);
+    if (options.retry !== false) installRetryPolicy(this.http, options.retry);
+  }
+
+  /* ------------------ SAME-CHAIN ------------------ */
+
+  async getSwapQuote<T extends SwapQuote = SwapQuote>(
+    params: SwapQuoteParams,
+    schema: Schema<T> = swapQuoteSchema as Schema<T>
+  ): Promise<T[]> {
+    const { evmExchange, providers, ...rest } = params;
+    // EVM aggregators can be narrowed server-side; other chains are filtered in getBestSwapQuote.
+    const exchanges =
+      evmExchange ??
+      (getChain(params.chain).family === "evm" ? providerPolicy(params.chain, providers).include : undefined);
+
+    const res = await this.http.get("/v1/swapQuote", {
+      params: {
+        ...rest,
+        // The input cap and output floor are enforced here, not by the API.
+        maxAmountIn: undefined,
+        minAmountOut: undefined,
+        inputToken: tokenAddress(params.chain, params.inputToken),
+        outputToken: tokenAddress(params.chain, params.outputToken),
+        ...(exchanges ? { evmExchange: JSON.stringify(exchanges) } : {}),
+      },
+    });
+
+    return parseKanaData("/v1/swapQuote", res.data, array(schema));
+  }
+
+  /**
+   * Ranks every returned route and keeps the rejected ones for inspection.
+   * Routes from providers the chain's policy rules out are dropped, as are
+   * ExactOut routes that could spend more than `maxAmountIn`; ExactOut routes
+   * are ranked by lowest input unless a strategy is given. Never cached: use
+   * this for quotes that will be executed.
+   */
+  async getBestSwapQuote<T extends SwapQuote = SwapQuote>(
+    params: SwapQuoteParams,
+    schema?: Schema<T>,
+    options: SelectionOptions<T> = {}
+  ): Promise<QuoteSelection<T>> {
+    const fetchedAt = Date.now();
+    const exactOut = params.swapMode === "ExactOut";
+    const providerLegs = swapProviderLegs(params);
+    const selection = await this.selectSwapQuote(params, schema, options);
+
+    trackQuote(selection.quote, {
+      fetchedAt,
+      side: exactOut ? "input" : "output",
+      amount: (quote) => toBaseUnits(exactOut ? quote.amountIn : quote.amountOut),
+      requote: async () => (await this.getBestSwapQuote(params, schema, options)).quote,
+      minimumOut: minimumOutput,
+      priceImpact: (quote) => swapQuoteFields(quote).priceImpact,
+      minAmountOut: params.minAmountOut,
+      providerLegs,
+    });
+    return selection;
+  }
+
+  /**
+   * `getBestSwapQuote` for price displays and pre-checks: identical requests
+   * within `quotes.cacheTtlSeconds` share one result, and concurrent ones one
+   * API call. Amounts are bucketed to `quotes.cacheAmountDigits` significant
+   * digits, so the quote may be for a slightly different amount. The quotes
+   * cannot be executed; `getSwapInstruction` throws an IndicativeQuoteError.
+   */
+  async getIndicativeSwapQuote<T extends SwapQuote = SwapQuote>(
+    params: SwapQuoteParams,
+    schema?: Schema<T>,
+    options: Pick<SelectionOptions<T>, "strategy"> = {}
+  ): Promise<IndicativeSelection<T>> {
+    const key = swapQuoteKey(params, getKanaConfig().quotes.cacheAmountDigits, options.strategy?.name);
+    const { value, source, fetchedAt } = await this.quoteCache.get(key, async () => {
+      const selection = await this.selectSwapQuote(params, schema, options);
+      [selection.quote, ...selection.rejected.map((route) => route.quote)].forEach(markIndicative);
+      return selection;
+    });
+    return { ...(value as QuoteSelection<T>), source, fetchedAt };
+  }
+
+  private async selectSwapQuote<T extends SwapQuote>(
+    params: SwapQuoteParams,
+    schema: Schema<T> | undefined,
+    options: SelectionOptions<T>
+  ): Promise<QuoteSelection<T>> {
+    let quotes = allowedByProvider(await this.getSwapQuote(params, schema), swapProviderLegs(params));
+    if (params.swapMode === "ExactOut" && params.maxAmountIn !== undefined) {
+      quotes = withinInputCap(quotes, params.maxAmountIn);
+    }
+
+    return selectQuote("/v1/swapQuote", quotes, swapQuoteFields, {
+      ...options,
+      gasCost: options.gasCost ?? ((quote) => this.swapGasCost(quote, params)),
+      strategy: options.strategy ?? (params.swapMode === "ExactOut" ? minIn : maxOut),
+    });
+  }
+
+  /* ------------------ GAS ------------------ */
+
+  // Priced from an indicative quote for one native token; routes of one
+  // selection share the cached quote.
+  private nativePrice: NativePrice = async (chain, token) => {
+    try {
+      const { chosen } = await this.getIndicativeSwapQuote({
+        inputToken: getChain(chain).nativeToken.address,
+        outputToken: token,
+        chain,
+        amountIn: (BigInt(10) ** BigInt(getChain(chain).nativeToken.decimals)).toString(),
+      });
+      return chosen.amountOut;
+    } catch {
+      return undefined;
+    }
+  };
+
+  /**
+   * The route's gas in output-token base units; the default `gasCost` of
+   * `getBestSwapQuote`. Zero when the quote has no gas estimate or the
+   * native token has no price in the output token.
+   */
+  swapGasCost(quote: SwapQuote, params: Pick<SwapQuoteParams, "chain" | "inputToken" | "outputToken">): Promise<bigint> {
+    const pair: SwapPair = {
+      chain: params.chain,
+      inputToken: tokenAddress(params.chain, params.inputToken),
+      outputToken: tokenAddress(params.chain, params.outputToken),
+    };
+    return swapGasCost(quote, pair, this.nativePrice);
+  }
+
+  /** Source and target gas in target-token base units; the default `gasCost` of `getBestCrossChainQuote`. */
+  crossChainGasCost(
+    quote: CrossChainQuote,
+    params: Pick<CrossChainQuoteParams, "sourceChain" | "targetChain" | "sourceToken" | "targetToken">
+  ): Promise<bigint> {
+    const pair: CrossChainPair = {
+      sourceChain: params.sourceChain,
+      targetChain: params.targetChain,
+      sourceToken: tokenAddress(params.sourceChain, params.sourceToken),
+      targetToken: tokenAddress(params.targetChain, params.targetToken),
+    };
+    return crossChainGasCost(quote, pair, this.nativePrice);
+  }
+
+  /**
+   * Re-quotes first when the quote is older than `quotes.maxAgeSeconds`, and
+   * refuses quotes outside the price-impact and minimum-output limits. Returns
+   * the quote the instruction was built from along with it.
+   */
+  async getSwapInstruction<T extends SwapInstruction, Q extends SwapQuote = SwapQuote>(
+    params: SwapInstructionParams & { quote: Q },
+    schema: Schema<T>
+  ): Promise<BuiltInstruction<T, Q>> {
+    const quote = await ensureFreshQuote(params.quote);
+    checkQuoteLimits(quote);
+    // A permit signed for an older quote may not cover the re-quote's input.
+    if (params.permit && BigInt(params.permit.amount) < maxInput(quote)) {
+      throw new PermitShortfallError(params.permit.amount, maxInput(quote).toString());
+    }
+    const res = await this.http.post("/v1/swapInstruction", { ...params, quote });
+
+    return { instruction: parseKanaData("/v1/swapInstruction", res.data, schema), quote };
+  }
+
+  /* ------------------ CROSS-CHAIN ------------------ */
+
+  /** "auto" slippage is sent as the fallback; `getBestCrossChainQuote` derives it per leg. */
+  async getCrossChainQuote(
+    params: CrossChainQuoteParams
+  ): Promise<CrossChainQuote[]> {
+    const res = await this.http.get("/v1/crossChainQuote", {
+      params: {
+        ...params,
+        ...quotedSlippage(params),
+        minAmountOut: undefined,
+        sourceProviders: undefined,
+        targetProviders: undefined,
+        sourceToken: tokenAddress(params.sourceChain, params.sourceToken),
+        targetToken: tokenAddress(params.targetChain, params.targetToken),
+      },
+    });
+
+    return parseKanaData(
+      "/v1/crossChainQuote",
+      res.data,
+      array(crossChainQuoteSchema)
+    );
+  }
+
+  /**
+   * With "auto" slippage on either leg, the best route is quoted again with
+   * each auto leg's tolerance derived from the price impact it was quoted at.
+   */
+  async getBestCrossChainQuote(
+    params: CrossChainQuoteParams,
+    options?: SelectionOptions<CrossChainQuote>
+  ): Promise<QuoteSelection<CrossChainQuote>> {
+    const fetchedAt = Date.now();
+    const providerLegs = crossChainProviderLegs(params);
+    const best = async (query: CrossChainQuoteParams) => {
+      const quotes = allowedByProvider(await this.getCrossChainQuote(query), providerLegs);
+      return selectQuote("/v1/crossChainQuote", quotes, crossChainQuoteFields, {
+        ...options,
+        gasCost: options?.gasCost ?? ((quote) => this.crossChainGasCost(quote, params)),
+      });
+    };
+
+    let selection = await best(params);
+    if (isAutoSlippage(params)) {
+      selection = await best({ ...params, ...quotedSlippage(params, selection.quote) });
+    }
+
+    trackQuote(selection.quote, {
+      fetchedAt,
+      side: "output",
+      amount: (quote) => toBaseUnits(quote.outAmount),
+      requote: async () => (await this.getBestCrossChainQuote(params, options)).quote,
+      minimumOut: (quote) => toBaseUnits(quote.amountOutWithSlippage ?? quote.outAmount),
+      priceImpact: (quote) => crossChainQuoteFields(quote).priceImpact,
+      minAmountOut: params.minAmountOut,
+      providerLegs,
+    });
+    if (selection.quote.sourceSwapRoute) this.trackSourceRoute(selection.quote.sourceSwapRoute, params, fetchedAt, options);
+    return selection;
+  }
+
+  /**
+   * Flows send the source swap from the cross-chain quote's own route, so it
+   * gets the same age, drift and limit checks as a swap quote. A re-quote
+   * takes the source route of a fresh cross-chain quote.
+   */
+  private trackSourceRoute(
+    route: SwapRoute,
+    params: CrossChainQuoteParams,
+    fetchedAt: number,
+    options?: SelectionOptions<CrossChainQuote>
+  ) {
+    trackQuote<SwapQuote>(route, {
+      fetchedAt,
+      side: "output",
+      amount: (quote) => toBaseUnits(quote.amountOut),
+      requote: async () => {
+        const { sourceSwapRoute } = (await this.getBestCrossChainQuote(params, options)).quote;
+        if (!sourceSwapRoute) throw new NoQuoteError("/v1/crossChainQuote source swap");
+        return sourceSwapRoute;
+      },
+      minimumOut: minimumOutput,
+      priceImpact: (quote) => swapQuoteFields(quote).priceImpact,
+      providerLegs: swapProviderLegs({ chain: params.sourceChain, providers: params.sourceProviders }),
+    });
+  }
+
+  /** Re-quotes and checks limits first, and returns the quote used, as `getSwapInstruction` does. */
+  async getCrossChainTransfer<T extends CrossChainTransferInstruction>(
+    params: CrossChainTransferParams,
+    schema: Schema<T>
+  ): Promise<BuiltInstruction<T, CrossChainQuote>> {
+    const quote = await ensureFreshQuote(params.quote);
+    checkQuoteLimits(quote);
+    const res = await this.http.post("/v1/crossChainTransfer", { ...params, quote });
+
+    return { instruction: parseKanaData("/v1/crossChainTransfer", res.data, schema), quote };
+  }
+
+  async getClaimInstruction<T extends ClaimInstruction>(
+    params: ClaimParams,
+    schema: Schema<T>
+  ): Promise<T> {
+    const res = await this.http.post("/v1/claim", params);
+
+    return parseKanaData("/v1/claim", res.data, schema);
+  }
+
+  async getRedeemInstruction<T extends RedeemInstruction>(
+    params: RedeemParams,
+    schema: Schema<T>
+  ): Promise<T> {
+    const res = await this.http.post("/v1/redeem", params);
+
+    // Older deployments returned the instruction without the data envelope,
+    // or wrapped it in a single-element array.
+    const body = res.data?.data === undefined ? { data: res.data } : res.data;
+    const data = Array.isArray(body.data) ? body.data[0] : body.data;
+
+    return parseKanaData("/v1/redeem", { data }, schema);
+  }
+}
+
+export const kanaClient = new KanaClient();
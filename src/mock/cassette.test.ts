@@ -0,0 +1,82 @@
+import assert from "assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { describe, it } from "node:test";
+import { Cassette, cassetteFetch } from "../cassette";
+import { NetworkId } from "../constant";
+import { CassetteMissError } from "../errors";
+import { KanaClient } from "../kanaClient";
+import { evmTransferInstructionSchema, solanaClaimInstructionSchema } from "../schemas";
+import { startMockServer } from "./server";
+
+const EVM_ADDRESS = "0x000000000000000000000000000000000000dEaD";
+const SOLANA_ADDRESS = "11111111111111111111111111111111";
+const BURN_TX = "0xabc";
+
+/** Quote → transfer → attestation → claim, as an EVM → Solana script runs them. */
+async function crossChain(client: KanaClient, apiUrl: string, cassette: Cassette) {
+  const { quote } = await client.getBestCrossChainQuote({
+    sourceToken: "POL",
+    targetToken: "SOL",
+    sourceChain: NetworkId.polygon,
+    targetChain: NetworkId.solana,
+    amountIn: "1000000000000000000",
+    sourceSlippage: 0.5,
+    targetSlippage: 0.5,
+  });
+  const { instruction } = await client.getCrossChainTransfer(
+    { quote, sourceAddress: EVM_ADDRESS, targetAddress: SOLANA_ADDRESS },
+    evmTransferInstructionSchema
+  );
+
+  const polls: string[] = [];
+  let message: { message: string; attestation: string };
+  do {
+    const res = await cassetteFetch(`${apiUrl}/messages/7/${BURN_TX}`, undefined, cassette);
+    message = (await res.json()).messages[0];
+    polls.push(message.attestation);
+  } while (message.attestation === "PENDING");
+
+  const claim = await client.getClaimInstruction(
+    {
+      quote,
+      targetAddress: SOLANA_ADDRESS,
+      messageBytes: message.message,
+      attestationSignature: message.attestation,
+    },
+    solanaClaimInstructionSchema
+  );
+  return { quote, instruction, polls, claim };
+}
+
+describe("Cassette", () => {
+  it("replays a recorded cross-chain flow, attestation polls included, without the server", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "kana-cassette-"));
+    const file = path.join(dir, "cross-chain.json");
+    try {
+      const server = await startMockServer({ port: 0, log: () => undefined });
+      let recorded;
+      try {
+        const cassette = new Cassette(file, "record");
+        const client = new KanaClient({ baseURL: server.url, retry: false, cassette });
+        recorded = await crossChain(client, server.url, cassette);
+      } finally {
+        await server.close();
+      }
+      assert.deepEqual(recorded.polls, ["PENDING", "0x00"]);
+
+      const { interactions } = JSON.parse(fs.readFileSync(file, "utf8"));
+      assert.deepEqual(interactions[0].response.headers, { "content-type": "application/json" });
+
+      const offline = "http://127.0.0.1:9";
+      const replay = new Cassette(file, "replay");
+      const client = new KanaClient({ baseURL: offline, retry: false, cassette: replay });
+      assert.deepEqual(await crossChain(client, offline, replay), recorded);
+
+      await assert.rejects(cassetteFetch(`${offline}/messages/7/${BURN_TX}`, undefined, replay), CassetteMissError);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,80 @@
+import assert from "assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { describe, it } from "node:test";
+import { chainConfig, loadConfig } from "../config";
+import { NetworkId } from "../constant";
+import { ConfigError } from "../errors";
+
+const EVM_KEY = `0x${"11".repeat(32)}`;
+
+function configFile(contents: object): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "kana-config-"));
+  const file = path.join(dir, "kana.config.json");
+  fs.writeFileSync(file, JSON.stringify(contents));
+  return file;
+}
+
+const EXAMPLE = path.resolve(__dirname, "../../kana.config.example.json");
+
+describe("loadConfig", () => {
+  it("lets env override the file and flags override env", () => {
+    const file = configFile({ quotes: { maxAgeSeconds: 10, maxDriftPercent: 1 } });
+    const config = loadConfig(
+      ["--config", file, "--quotes.maxDriftPercent=2"],
+      { QUOTE_MAX_AGE_SECONDS: "20", QUOTE_MAX_DRIFT_PERCENT: "3" }
+    );
+    assert.equal(config.quotes.maxAgeSeconds, 20);
+    assert.equal(config.quotes.maxDriftPercent, 2);
+    assert.equal(config.quotes.onDrift, "ask", "untouched settings keep their default");
+  });
+
+  it("sets EVM_PRIVATE_KEY on every EVM chain, below the per-chain variable", () => {
+    const other = `0x${"22".repeat(32)}`;
+    const config = loadConfig([], { EVM_PRIVATE_KEY: EVM_KEY, POLYGON_PRIVATE_KEY: other });
+    assert.equal(config.chains.Arbitrum?.privateKey, EVM_KEY);
+    assert.equal(config.chains.polygon?.privateKey, other);
+  });
+
+  it("converts numbers and lists that arrive as strings", () => {
+    const config = loadConfig([], { POLYGON_MAX_FEE_BUMPS: "5", POLYGON_INCLUDE_PROVIDERS: "okx, uniswap" });
+    assert.equal(config.chains.polygon?.maxFeeBumps, 5);
+    assert.deepEqual(config.chains.polygon?.includeProviders, ["okx", "uniswap"]);
+  });
+
+  it("rejects blank numbers instead of reading them as zero", () => {
+    assert.throws(() => loadConfig([], { QUOTE_MAX_AGE_SECONDS: "" }), ConfigError);
+    assert.throws(() => loadConfig(["--chains.polygon.maxFeeBumps= "], {}), ConfigError);
+  });
+
+  it("lists every issue at once", () => {
+    assert.throws(
+      () => loadConfig(["--quotes.onDrift=never", "--chains.polygon.rpcUrl=not-a-url"], {}),
+      (err: unknown) => err instanceof ConfigError && err.issues.length === 2
+    );
+  });
+
+  it("accepts the example file with only the needed placeholders filled in", () => {
+    const example = JSON.parse(fs.readFileSync(EXAMPLE, "utf8"));
+    example.kana.apiKey = "key";
+    example.chains.polygon = { privateKey: EVM_KEY, rpcUrl: "https://polygon.example" };
+    const config = loadConfig(["--config", configFile(example)], {});
+    assert.equal(config.chains.polygon?.privateKey, EVM_KEY);
+    assert.equal(config.chains.ethereum?.privateKey, "YOUR_PRIVATE_KEY", "unused placeholders are left alone");
+  });
+});
+
+describe("chainConfig", () => {
+  it("reports a placeholder only on the chain a flow asks for", () => {
+    // getKanaConfig() reads process.env once, on the first chainConfig call.
+    process.env.POLYGON_PRIVATE_KEY = "YOUR_PRIVATE_KEY";
+    process.env.ARBITRUM_PRIVATE_KEY = EVM_KEY;
+    process.env.ARBITRUM_RPC_URL = "YOUR_NODE_URI";
+
+    assert.throws(() => chainConfig(NetworkId.polygon, "privateKey"), /placeholder "YOUR_PRIVATE_KEY"/);
+    const arbitrum = chainConfig(NetworkId.Arbitrum, "privateKey");
+    assert.equal(arbitrum.privateKey, EVM_KEY);
+    assert.equal(arbitrum.rpcUrl, undefined, "an optional placeholder comes back unset");
+  });
+});
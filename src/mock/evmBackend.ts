@@ -0,0 +1,89 @@
+/**
+ * In-memory EvmBackend for the executor tests. Every transaction is mined as
+ * soon as it is sent, and each backend call is logged in order, so a test can
+ * check what was simulated and sent before which receipt was asked for.
+ */
+
+import { EvmBackend, EvmCall, EvmReceipt, SimulationResult } from "../evm/executor";
+import { EvmFees, FeeHistory } from "../evm/fees";
+
+export interface FakeEvmBackendOptions {
+  /**
+   * Defaults to one outside the chain registry, so no config settings apply.
+   * Nonce managers are kept per chain and address, so give each test its own.
+   */
+  chainId?: number;
+  /** The account's transaction count before the test. */
+  nonce?: number;
+  /** The outcome of simulating a call to `to`; passes when absent. */
+  simulations?: Record<string, SimulationResult>;
+  /** Without it `eth_feeHistory` is unsupported, so fees fall back to legacy. */
+  feeHistory?: FeeHistory;
+}
+
+export class FakeEvmBackend implements EvmBackend {
+  /** "simulate <to>", "send <to> #<nonce>" and "receipt <hash>", in call order. */
+  readonly log: string[] = [];
+  readonly sent: { call: EvmCall; nonce: number; fees: EvmFees; hash: string }[] = [];
+  private mined: number;
+
+  constructor(private readonly options: FakeEvmBackendOptions = {}) {
+    this.mined = options.nonce ?? 0;
+  }
+
+  async address() {
+    return "0x000000000000000000000000000000000000dEaD";
+  }
+
+  async chainId() {
+    return this.options.chainId ?? 31_337;
+  }
+
+  async transactionCount() {
+    return this.mined;
+  }
+
+  async feeHistory(): Promise<FeeHistory> {
+    if (!this.options.feeHistory) throw new Error("eth_feeHistory is not supported");
+    return this.options.feeHistory;
+  }
+
+  async gasPrice() {
+    return BigInt(1_000_000_000);
+  }
+
+  async call(): Promise<string> {
+    throw new Error("no contracts on the fake backend");
+  }
+
+  async simulate(call: EvmCall): Promise<SimulationResult> {
+    this.log.push(`simulate ${call.to}`);
+    return this.options.simulations?.[call.to] ?? { reverted: false };
+  }
+
+  async estimateGas() {
+    return BigInt(100_000);
+  }
+
+  async signTypedData(): Promise<string> {
+    return "0x";
+  }
+
+  async send(call: EvmCall, _gasLimit: bigint, fees: EvmFees, nonce: number) {
+    const hash = `0x${(this.sent.length + 1).toString(16).padStart(64, "0")}`;
+    this.log.push(`send ${call.to} #${nonce}`);
+    this.sent.push({ call, nonce, fees, hash });
+    this.mined = Math.max(this.mined, nonce + 1);
+    return hash;
+  }
+
+  async receipt(hash: string): Promise<EvmReceipt | undefined> {
+    this.log.push(`receipt ${hash}`);
+    const index = this.sent.findIndex((tx) => tx.hash === hash);
+    return index === -1 ? undefined : { hash, status: "success", blockNumber: index + 1 };
+  }
+
+  async isKnown(hash: string) {
+    return this.sent.some((tx) => tx.hash === hash);
+  }
+}
@@ -0,0 +1,39 @@
+import assert from "assert/strict";
+import { describe, it } from "node:test";
+import { sendEvmSequence } from "../evm/executor";
+import { SimulationRevertedError } from "../errors";
+import { FakeEvmBackend } from "./evmBackend";
+
+const APPROVE = { call: { to: "0xa", data: "0x", gasLimit: "60000" }, label: "Approve" };
+const SWAP = { call: { to: "0xb", data: "0x", gasLimit: "300000" }, label: "Swap" };
+
+describe("sendEvmSequence", () => {
+  it("sends a step with a gasLimit behind the pending one, without simulating it", async () => {
+    const backend = new FakeEvmBackend({ chainId: 31_001, nonce: 4, simulations: { "0xb": { reverted: true } } });
+    const hashes = await sendEvmSequence(backend, [APPROVE, SWAP]);
+
+    assert.deepEqual(hashes, backend.sent.map((tx) => tx.hash));
+    assert.deepEqual(backend.log.slice(0, 3), ["simulate 0xa", "send 0xa #4", "send 0xb #5"]);
+  });
+
+  it("waits for each receipt and simulates every step without pipelining", async () => {
+    const backend = new FakeEvmBackend({ chainId: 31_002 });
+    await sendEvmSequence(backend, [APPROVE, SWAP], { pipeline: false });
+
+    const [approve, swap] = backend.sent;
+    assert.deepEqual(backend.log, [
+      "simulate 0xa",
+      "send 0xa #0",
+      `receipt ${approve.hash}`,
+      "simulate 0xb",
+      "send 0xb #1",
+      `receipt ${swap.hash}`,
+    ]);
+  });
+
+  it("sends nothing more once a step on a settled account would revert", async () => {
+    const backend = new FakeEvmBackend({ chainId: 31_003, simulations: { "0xb": { reverted: true } } });
+    await assert.rejects(sendEvmSequence(backend, [APPROVE, SWAP], { pipeline: false }), SimulationRevertedError);
+    assert.equal(backend.sent.length, 1);
+  });
+});
@@ -0,0 +1,76 @@
+import assert from "assert/strict";
+import { describe, it } from "node:test";
+import { FeeHistory, bumpFees, feesFromHistory, resolveFees } from "../evm/fees";
+import { FakeEvmBackend } from "./evmBackend";
+
+const gwei = (value: number) => BigInt(value) * BigInt(1_000_000_000);
+
+// Tips at the slow, normal and fast percentiles for three blocks, plus the next block's base fee.
+const HISTORY: FeeHistory = {
+  baseFeePerGas: [gwei(10), gwei(12), gwei(14), gwei(20)],
+  reward: [
+    [gwei(1), gwei(2), gwei(5)],
+    [gwei(1), gwei(3), gwei(6)],
+    [gwei(1), gwei(4), gwei(7)],
+  ],
+};
+
+describe("feesFromHistory", () => {
+  it("tips the median at the speed's percentile and caps above the next base fee", () => {
+    assert.deepEqual(feesFromHistory(HISTORY, "normal"), {
+      type: "eip1559",
+      maxPriorityFeePerGas: gwei(3),
+      maxFeePerGas: gwei(30) + gwei(3),
+    });
+    assert.deepEqual(feesFromHistory(HISTORY, "fast"), {
+      type: "eip1559",
+      maxPriorityFeePerGas: gwei(6),
+      maxFeePerGas: gwei(40) + gwei(6),
+    });
+  });
+});
+
+describe("resolveFees", () => {
+  it("uses type-2 fees when blocks carry a base fee", async () => {
+    const fees = await resolveFees(new FakeEvmBackend({ feeHistory: HISTORY }), "5000000000");
+    assert.equal(fees.type, "eip1559");
+  });
+
+  it("falls back to the API's gas price without eth_feeHistory", async () => {
+    assert.deepEqual(await resolveFees(new FakeEvmBackend(), "5000000000"), { type: "legacy", gasPrice: gwei(5) });
+    assert.deepEqual(await resolveFees(new FakeEvmBackend(), undefined), { type: "legacy", gasPrice: gwei(1) });
+  });
+
+  it("refuses type-2 fees on a chain without a base fee when they were asked for", async () => {
+    const flat = { baseFeePerGas: [BigInt(0)], reward: [] };
+    await assert.rejects(
+      resolveFees(new FakeEvmBackend({ feeHistory: flat }), undefined, { mode: "eip1559" }),
+      /reports no base fee/
+    );
+  });
+
+  it("sends custom fees as given", async () => {
+    const fees = await resolveFees(new FakeEvmBackend({ feeHistory: HISTORY }), undefined, {
+      strategy: { gasPrice: "7" },
+    });
+    assert.deepEqual(fees, { type: "legacy", gasPrice: BigInt(7) });
+  });
+});
+
+describe("bumpFees", () => {
+  it("raises the previous fees by 20%", () => {
+    const previous = { type: "eip1559" as const, maxFeePerGas: gwei(50), maxPriorityFeePerGas: gwei(2) };
+    const current = { type: "eip1559" as const, maxFeePerGas: gwei(40), maxPriorityFeePerGas: gwei(1) };
+    assert.deepEqual(bumpFees(previous, current), {
+      type: "eip1559",
+      maxFeePerGas: gwei(60),
+      maxPriorityFeePerGas: (gwei(2) * BigInt(12)) / BigInt(10),
+    });
+  });
+
+  it("follows the network when it has moved above the bump, keeping the type", () => {
+    const previous = { type: "legacy" as const, gasPrice: gwei(10) };
+    const current = { type: "eip1559" as const, maxFeePerGas: gwei(30), maxPriorityFeePerGas: gwei(2) };
+    assert.deepEqual(bumpFees(previous, current), { type: "legacy", gasPrice: gwei(30) });
+  });
+});
@@ -0,0 +1,280 @@
+import {
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { beginCell } from "@ton/ton";
+import { CHAINS, ChainFamily, getChain } from "../chains";
+import { BridgeId, KANA_DIAMOND_ADDRESS, NetworkId } from "../constant";
+import {
+  AptosEntryFunctionPayload,
+  CrossChainQuote,
+  CrossChainQuoteParams,
+  SwapQuote,
+  SwapRoute,
+  TransactionIX,
+} from "../types";
+
+/* ------------------ SCENARIOS ------------------ */
+
+export const SCENARIOS = [
+  /** One quote per request, every instruction well formed. */
+  "default",
+  /** Three quotes from different providers, best output not first. */
+  "multi-quote",
+  /** The first two calls to each endpoint answer 429 with Retry-After: 1. */
+  "rate-limited",
+  /** Quote endpoints answer `{ data: [] }`. */
+  "empty",
+  /** Solana swap instructions come back without `swapTransaction`. */
+  "no-swap-transaction",
+  /** Cross-chain quotes land on the bridge token: `targetSwapRoute` is null. */
+  "no-target-swap",
+] as const;
+
+export type Scenario = (typeof SCENARIOS)[number];
+
+export function isScenario(value: unknown): value is Scenario {
+  return SCENARIOS.includes(value as Scenario);
+}
+
+/* ------------------ HELPERS ------------------ */
+
+const PROVIDERS = [
+  { provider: "mock-dex-a", bps: 9_950, priceImpact: "0.12" },
+  { provider: "mock-dex-b", bps: 9_980, priceImpact: "0.05" },
+  { provider: "mock-dex-c", bps: 9_900, priceImpact: "0.40" },
+];
+
+const SLIPPAGE_BPS = 50;
+
+// Stand-ins the mock bridges through; real quotes carry the chain's USDC.
+const BRIDGE_TOKEN: Partial<Record<ChainFamily, string>> = {
+  evm: "0x0000000000000000000000000000000000000bbb",
+  solana: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+  aptos: "0xbae207659db88bea0cbead6da0ed00aac12edcdda169e591cd41c94180b46f3b",
+};
+
+function scale(amount: string | number, bps: number): string {
+  return ((BigInt(amount) * BigInt(bps)) / BigInt(10_000)).toString();
+}
+
+// Rounds up, as an ExactOut route must cover the whole output.
+function unscale(amount: string | number, bps: number): string {
+  return ((BigInt(amount) * BigInt(10_000) + BigInt(bps - 1)) / BigInt(bps)).toString();
+}
+
+/** Works out which chain an echoed quote or address belongs to. */
+export function chainOf(quote: Record<string, unknown>, address?: string): NetworkId {
+  const id = Number(quote.chainId ?? quote.sourceChain);
+  if (CHAINS[id as NetworkId]) return id as NetworkId;
+
+  if (address && /^0x[0-9a-fA-F]{40}$/.test(address)) return NetworkId.ethereum;
+  if (address && /^0x[0-9a-fA-F]{1,64}$/.test(address)) return NetworkId.aptos;
+  if (address && /^[EU]Q[\w-]{46}$/.test(address)) return NetworkId.ton;
+  return NetworkId.solana;
+}
+
+function solanaTransaction(payer: string): string {
+  let payerKey: PublicKey;
+  try {
+    payerKey = new PublicKey(payer);
+  } catch {
+    payerKey = Keypair.generate().publicKey;
+  }
+  const message = new TransactionMessage({
+    payerKey,
+    recentBlockhash: PublicKey.default.toBase58(),
+    instructions: [SystemProgram.transfer({ fromPubkey: payerKey, toPubkey: payerKey, lamports: 0 })],
+  }).compileToV0Message();
+  return Buffer.from(new VersionedTransaction(message).serialize()).toString("base64");
+}
+
+function aptosPayload(address: string): AptosEntryFunctionPayload {
+  return {
+    function: "0x1::aptos_account::transfer",
+    type_arguments: [],
+    arguments: [address, "0"],
+  };
+}
+
+function evmTransaction(chain: NetworkId, from: string, value = "0"): TransactionIX {
+  return {
+    to: KANA_DIAMOND_ADDRESS,
+    from,
+    value,
+    data: "0x",
+    gasPrice: "1000000000",
+    gasLimit: "300000",
+    chainId: getChain(chain).viemChain?.id ?? 1,
+  };
+}
+
+function tonMessage() {
+  return {
+    to: "EQCxE6mUtQJKFnGfaROTKOt1lZbDiiX1kCixRv7Nw2Id_sDs",
+    value: "150000000",
+    body: beginCell().endCell().toBoc().toString("base64"),
+  };
+}
+
+/* ------------------ SAME-CHAIN ------------------ */
+
+export function swapQuotes(scenario: Scenario, params: Record<string, string>): SwapQuote[] {
+  if (scenario === "empty") return [];
+
+  const chain = Number(params.chain) as NetworkId;
+  const providers = scenario === "multi-quote" ? PROVIDERS : PROVIDERS.slice(0, 1);
+  return providers.map(({ provider, bps, priceImpact }) => {
+    const exactOut = params.swapMode === "ExactOut";
+    const amountIn = exactOut ? unscale(params.amountOut, bps) : String(params.amountIn);
+    const amountOut = exactOut ? String(params.amountOut) : scale(params.amountIn, bps);
+    const quote: SwapQuote = {
+      sourceToken: params.inputToken,
+      targetToken: params.outputToken,
+      chainId: chain,
+      amountIn,
+      amountOut,
+      provider,
+      priceImpact,
+    };
+    if (exactOut) {
+      quote.swapMode = "ExactOut";
+      quote.amountInWithSlippage = unscale(amountIn, 10_000 - SLIPPAGE_BPS);
+      quote.maximumInAmount = quote.amountInWithSlippage;
+    } else {
+      quote.amountOutWithSlippage = scale(amountOut, 10_000 - SLIPPAGE_BPS);
+      quote.minimumOutAmount = quote.amountOutWithSlippage;
+    }
+    if (chain === NetworkId.aptos) quote.instruction = aptosPayload(params.sender ?? "0x1");
+    if (chain === NetworkId.ton) quote.instruction = tonMessage();
+    return quote;
+  });
+}
+
+export function swapInstruction(
+  scenario: Scenario,
+  body: { quote: Record<string, unknown>; address: string; permit?: unknown }
+): unknown {
+  const chain = chainOf(body.quote, body.address);
+  switch (getChain(chain).family) {
+    case "aptos":
+      return aptosPayload(body.address);
+    case "evm":
+      return {
+        // A signed permit (the body's `permit`) is redeemed inside the swap.
+        ...(body.permit ? {} : { approveIX: evmTransaction(chain, body.address) }),
+        swapIX: evmTransaction(chain, body.address, String(body.quote.amountIn ?? "0")),
+      };
+    case "solana":
+      return scenario === "no-swap-transaction" ? {} : { swapTransaction: solanaTransaction(body.address) };
+    default:
+      return { instruction: tonMessage() };
+  }
+}
+
+/* ------------------ CROSS-CHAIN ------------------ */
+
+function route(
+  chain: NetworkId,
+  sourceToken: string,
+  targetToken: string,
+  amountIn: string
+): SwapRoute {
+  const amountOut = scale(amountIn, PROVIDERS[0].bps);
+  return {
+    chainId: chain,
+    sourceToken,
+    targetToken,
+    provider: PROVIDERS[0].provider,
+    amountIn,
+    amountOut,
+    amountOutWithSlippage: scale(amountOut, 10_000 - SLIPPAGE_BPS),
+  };
+}
+
+// A thousandth of the chain's native token per transaction.
+const gasEstimate = (chain: NetworkId) =>
+  (BigInt(10) ** BigInt(getChain(chain).nativeToken.decimals - 3)).toString();
+
+export function crossChainQuotes(
+  scenario: Scenario,
+  params: Record<string, string>
+): CrossChainQuote[] {
+  if (scenario === "empty") return [];
+
+  const sourceChain = Number(params.sourceChain) as NetworkId;
+  const targetChain = Number(params.targetChain) as NetworkId;
+  const sourceBridgeToken = BRIDGE_TOKEN[getChain(sourceChain).family] ?? params.sourceToken;
+  const targetBridgeToken = BRIDGE_TOKEN[getChain(targetChain).family] ?? params.targetToken;
+
+  const sourceSwapRoute =
+    params.sourceToken === sourceBridgeToken
+      ? null
+      : route(sourceChain, params.sourceToken, sourceBridgeToken, params.amountIn);
+  const bridged = sourceSwapRoute?.amountOutWithSlippage ?? params.amountIn;
+  const targetSwapRoute =
+    scenario === "no-target-swap"
+      ? null
+      : route(targetChain, targetBridgeToken, params.targetToken, bridged);
+
+  const count = scenario === "multi-quote" ? PROVIDERS.length : 1;
+  return Array.from({ length: count }, (_, index) => ({
+    sourceToken: params.sourceToken,
+    targetToken: params.targetToken,
+    sourceChain,
+    targetChain,
+    inAmount: String(params.amountIn),
+    outAmount: scale(targetSwapRoute?.amountOut ?? bridged, PROVIDERS[index].bps),
+    amountOutWithSlippage: targetSwapRoute?.amountOutWithSlippage ?? bridged,
+    sourceBridgeToken,
+    targetBridgeToken,
+    sourceSwapRoute,
+    targetSwapRoute,
+    bridgeId: BridgeId.cctp,
+    bridgeFees: [{ label: "relayer", token: sourceBridgeToken, amount: "10000" }],
+    gasEstimate: { source: gasEstimate(sourceChain), target: gasEstimate(targetChain) },
+  }));
+}
+
+export function crossChainTransfer(body: {
+  quote: Record<string, unknown>;
+  sourceAddress: string;
+}): unknown {
+  const chain = chainOf({ chainId: body.quote.sourceChain }, body.sourceAddress);
+  switch (getChain(chain).family) {
+    case "aptos":
+      return { bridgePayload: aptosPayload(body.sourceAddress) };
+    case "evm":
+      return {
+        approveIX: evmTransaction(chain, body.sourceAddress),
+        transferIX: evmTransaction(chain, body.sourceAddress),
+      };
+    default:
+      return { transferTx: solanaTransaction(body.sourceAddress) };
+  }
+}
+
+/* ------------------ CLAIM / REDEEM ------------------ */
+
+export function claimInstruction(chain: NetworkId, targetAddress: string): unknown {
+  switch (getChain(chain).family) {
+    case "aptos":
+      return { claimPayload: aptosPayload(targetAddress) };
+    case "evm":
+      return { claimIx: { to: KANA_DIAMOND_ADDRESS, data: "0x", value: "0" } };
+    default:
+      return { claimIx: solanaTransaction(targetAddress) };
+  }
+}
+
+/* ------------------ ATTESTATION ------------------ */
+
+/** Circle's answer for a burn; a stand-in message and attestation once `ready`. */
+export function attestation(ready: boolean): unknown {
+  return {
+    messages: [{ message: ready ? "0x00" : "0x", attestation: ready ? "0x00" : "PENDING" }],
+  };
+}
@@ -0,0 +1,55 @@
+import assert from "assert/strict";
+import { describe, it } from "node:test";
+import { NonceManager, NonceSource } from "../evm/nonces";
+
+function source(pending: number): NonceSource & { pending: number } {
+  return {
+    pending,
+    address: async () => "0x000000000000000000000000000000000000dEaD",
+    chainId: async () => 31_337,
+    async transactionCount() {
+      return this.pending;
+    },
+  };
+}
+
+describe("NonceManager", () => {
+  it("starts at the pending count and never hands out a nonce twice", async () => {
+    const nonces = new NonceManager(source(7));
+    const reserved = await Promise.all([nonces.reserve(), nonces.reserve(), nonces.reserve()]);
+    assert.deepEqual(reserved, [7, 8, 9]);
+  });
+
+  it("rolls back the latest reservation when it is released", async () => {
+    const nonces = new NonceManager(source(0));
+    await nonces.reserve();
+    nonces.release(await nonces.reserve());
+    assert.equal(await nonces.reserve(), 1);
+  });
+
+  it("reuses an earlier released nonce, lowest first, before the next one", async () => {
+    const nonces = new NonceManager(source(0));
+    const [first, second] = [await nonces.reserve(), await nonces.reserve()];
+    await nonces.reserve();
+    nonces.release(second);
+    nonces.release(first);
+    assert.deepEqual([await nonces.reserve(), await nonces.reserve(), await nonces.reserve()], [0, 1, 3]);
+  });
+
+  it("resyncs past nonces the chain has seen, but not onto unsent ones", async () => {
+    const chain = source(0);
+    const nonces = new NonceManager(chain);
+    const first = await nonces.reserve();
+    const second = await nonces.reserve();
+    nonces.sent(second);
+    nonces.release(first);
+
+    chain.pending = 2;
+    nonces.resync();
+    assert.equal(await nonces.reserve(), 2, "nonce 0 is below the pending count, so it is not reused");
+
+    const unsent = await nonces.reserve();
+    nonces.resync();
+    assert.equal(await nonces.reserve(), unsent + 1, "a reserved nonce is not handed out again");
+  });
+});
@@ -0,0 +1,68 @@
+import assert from "assert/strict";
+import { after, before, describe, it } from "node:test";
+import { NetworkId } from "../constant";
+import { PermitShortfallError } from "../errors";
+import { KanaClient } from "../kanaClient";
+import { evmSwapInstructionSchema } from "../schemas";
+import { maxInput } from "../swapAmounts";
+import { SignedPermit, SwapQuote } from "../types";
+import { MockServer, startMockServer } from "./server";
+
+const EVM_ADDRESS = "0x000000000000000000000000000000000000dEaD";
+
+function permitFor(quote: SwapQuote, amount: bigint): SignedPermit {
+  return {
+    kind: "eip2612",
+    token: quote.sourceToken ?? "",
+    owner: EVM_ADDRESS,
+    spender: EVM_ADDRESS,
+    amount: amount.toString(),
+    nonce: "0",
+    deadline: Math.floor(Date.now() / 1000) + 60,
+    signature: "0x",
+  };
+}
+
+describe("getSwapInstruction with a permit", () => {
+  let server: MockServer;
+  let client: KanaClient;
+
+  before(async () => {
+    server = await startMockServer({ port: 0, log: () => undefined });
+    client = new KanaClient({ baseURL: server.url, retry: false });
+  });
+  after(() => server.close());
+
+  const quote = async () =>
+    (
+      await client.getBestSwapQuote({
+        inputToken: "USDC.e",
+        outputToken: "POL",
+        chain: NetworkId.polygon,
+        swapMode: "ExactOut",
+        amountOut: "1000000000000000000",
+        slippage: 0.5,
+      })
+    ).quote;
+
+  it("sends a permit that covers the quote's maximum input, in place of the approval", async () => {
+    const fresh = await quote();
+    const { instruction } = await client.getSwapInstruction(
+      { quote: fresh, address: EVM_ADDRESS, permit: permitFor(fresh, maxInput(fresh)) },
+      evmSwapInstructionSchema
+    );
+    assert.equal(instruction.approveIX, undefined);
+  });
+
+  it("refuses a permit sized below the quote's maximum input", async () => {
+    const fresh = await quote();
+    assert.ok(maxInput(fresh) > BigInt(fresh.amountIn ?? 0), "slippage raises the maximum input");
+    await assert.rejects(
+      client.getSwapInstruction(
+        { quote: fresh, address: EVM_ADDRESS, permit: permitFor(fresh, BigInt(fresh.amountIn ?? 0)) },
+        evmSwapInstructionSchema
+      ),
+      PermitShortfallError
+    );
+  });
+});
@@ -0,0 +1,26 @@
+import assert from "assert/strict";
+import { describe, it } from "node:test";
+import { NetworkId } from "../constant";
+import { swapQuoteKey } from "../quoteCache";
+
+const USDC_POLYGON = "0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359";
+const USDC_SOLANA = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+const BONK_SOLANA = "DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263";
+
+describe("swapQuoteKey", () => {
+  it("shares an entry between EVM addresses that differ only in case", () => {
+    const params = { chain: NetworkId.polygon, inputToken: USDC_POLYGON, outputToken: "MATIC", amountIn: "1" };
+    assert.equal(
+      swapQuoteKey(params, 3),
+      swapQuoteKey({ ...params, inputToken: USDC_POLYGON.toLowerCase() }, 3)
+    );
+  });
+
+  it("keeps base58 addresses apart when they differ only in case", () => {
+    const params = { chain: NetworkId.solana, inputToken: USDC_SOLANA, outputToken: BONK_SOLANA, amountIn: "1" };
+    assert.notEqual(
+      swapQuoteKey(params, 3),
+      swapQuoteKey({ ...params, outputToken: BONK_SOLANA.toLowerCase() }, 3)
+    );
+  });
+});
@@ -0,0 +1,82 @@
+import assert from "assert/strict";
+import http from "http";
+import { AddressInfo } from "net";
+import { after, before, describe, it } from "node:test";
+import axios, { AxiosInstance, InternalAxiosRequestConfig } from "axios";
+import { RetryBudget, installRetryPolicy, isIdempotent, parseRetryAfter } from "../retry";
+
+describe("parseRetryAfter", () => {
+  const now = Date.parse("2026-01-01T00:00:00Z");
+
+  it("reads seconds and HTTP dates", () => {
+    assert.equal(parseRetryAfter("2", now), 2000);
+    assert.equal(parseRetryAfter(1.5, now), 1500);
+    assert.equal(parseRetryAfter("Thu, 01 Jan 2026 00:00:03 GMT", now), 3000);
+    assert.equal(parseRetryAfter("Wed, 31 Dec 2025 23:59:00 GMT", now), 0, "a past date means now");
+  });
+
+  it("ignores blank and unreadable headers instead of retrying at once", () => {
+    assert.equal(parseRetryAfter("", now), undefined);
+    assert.equal(parseRetryAfter("  ", now), undefined);
+    assert.equal(parseRetryAfter("soon", now), undefined);
+    assert.equal(parseRetryAfter(undefined, now), undefined);
+  });
+});
+
+describe("isIdempotent", () => {
+  const config = (method: string, url: string) => ({ method, url } as InternalAxiosRequestConfig);
+
+  it("follows the endpoint table, then the HTTP method", () => {
+    assert.equal(isIdempotent(config("get", "/v1/swapQuote?chain=2")), true);
+    assert.equal(isIdempotent(config("post", "/v1/claim")), false);
+    assert.equal(isIdempotent(config("post", "/v1/somethingNew")), false);
+    assert.equal(isIdempotent(config("get", "/v1/somethingNew")), true);
+  });
+});
+
+describe("RetryBudget", () => {
+  it("allows `limit` retries per window", () => {
+    const budget = new RetryBudget(2, 1000);
+    assert.deepEqual([budget.tryAcquire(0), budget.tryAcquire(10), budget.tryAcquire(20)], [true, true, false]);
+    assert.equal(budget.tryAcquire(1000), true, "the first retry has left the window");
+  });
+});
+
+describe("installRetryPolicy", () => {
+  let server: http.Server;
+  let client: AxiosInstance;
+  // Status codes to answer with, per path, before answering 200.
+  const failures: Record<string, number[]> = {};
+  const calls: Record<string, number> = {};
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      const path = (req.url ?? "").split("?")[0];
+      calls[path] = (calls[path] ?? 0) + 1;
+      const status = failures[path]?.shift() ?? 200;
+      res.writeHead(status, { "Content-Type": "application/json", ...(status === 429 ? { "Retry-After": "0" } : {}) });
+      res.end(JSON.stringify({ status }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+    client = axios.create({ baseURL: `http://127.0.0.1:${port}` });
+    installRetryPolicy(client, { baseDelayMs: 1, log: () => undefined });
+  });
+  after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  it("retries 429s on any endpoint", async () => {
+    failures["/v1/claim"] = [429, 429];
+    assert.equal((await client.post("/v1/claim", {})).status, 200);
+    assert.equal(calls["/v1/claim"], 3);
+  });
+
+  it("retries a 5xx only where the endpoint is idempotent", async () => {
+    failures["/v1/swapQuote"] = [503];
+    assert.equal((await client.get("/v1/swapQuote")).status, 200);
+    assert.equal(calls["/v1/swapQuote"], 2);
+
+    failures["/v1/crossChainTransfer"] = [503];
+    await assert.rejects(client.post("/v1/crossChainTransfer", {}), /status code 503/);
+    assert.equal(calls["/v1/crossChainTransfer"], 1);
+  });
+});
@@ -0,0 +1,82 @@
+import assert from "assert/strict";
+import http from "http";
+import { AddressInfo } from "net";
+import { after, before, describe, it } from "node:test";
+import { ethers } from "ethers";
+import { ethersBackend } from "../evm/ethers";
+import { EvmBackend } from "../evm/executor";
+import { decodeRevert, describeRevert } from "../evm/revert";
+
+const coder = ethers.utils.defaultAbiCoder;
+const errorData = (reason: string) => `0x08c379a0${coder.encode(["string"], [reason]).slice(2)}`;
+const panicData = (code: number) => `0x4e487b71${coder.encode(["uint256"], [code]).slice(2)}`;
+const customData = (signature: string, types: string[] = [], values: unknown[] = []) =>
+  ethers.utils.id(signature).slice(0, 10) + coder.encode(types, values).slice(2);
+
+describe("decodeRevert", () => {
+  it("reads Error(string) reasons, with a hint for known ones", () => {
+    assert.equal(describeRevert(decodeRevert(errorData("STF"))), `Error("STF"): the wallet's balance or allowance is too low`);
+    assert.deepEqual(decodeRevert(errorData("custom")), { error: `Error("custom")`, hint: undefined });
+  });
+
+  it("reads Panic codes", () => {
+    assert.equal(describeRevert(decodeRevert(panicData(0x11))), "Panic(0x11): arithmetic overflow or underflow");
+  });
+
+  it("names known custom errors and unwraps the Universal Router's ExecutionFailed", () => {
+    assert.equal(decodeRevert(customData("V2TooLittleReceived()")).error, "V2TooLittleReceived()");
+    const wrapped = customData("ExecutionFailed(uint256,bytes)", ["uint256", "bytes"], [2, errorData("TF")]);
+    assert.deepEqual(decodeRevert(wrapped), { error: `command 2: Error("TF")`, hint: "a token transfer failed" });
+  });
+
+  it("keeps the selector of unknown errors and reports empty data", () => {
+    assert.equal(decodeRevert("0xdeadbeef").error, "unknown error 0xdeadbeef");
+    assert.equal(decodeRevert("0x").error, "reverted without a reason");
+    assert.equal(decodeRevert(undefined).error, "reverted without a reason");
+  });
+});
+
+// The JSON-RPC error the stub node answers eth_call with; undefined answers "0x".
+let callError: { code: number; message: string; data?: unknown } | undefined;
+
+describe("ethersBackend simulate", () => {
+  let node: http.Server;
+  let backend: EvmBackend;
+  const call = { to: "0x000000000000000000000000000000000000bEEF", data: "0x" };
+
+  before(async () => {
+    node = http.createServer(async (req, res) => {
+      let raw = "";
+      for await (const chunk of req) raw += chunk;
+      const { id, method } = JSON.parse(raw);
+      const reply = method === "eth_call" && callError ? { error: callError } : { result: "0x" };
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ jsonrpc: "2.0", id, ...reply }));
+    });
+    await new Promise<void>((resolve) => node.listen(0, "127.0.0.1", resolve));
+    const { port } = node.address() as AddressInfo;
+    const provider = new ethers.providers.StaticJsonRpcProvider(`http://127.0.0.1:${port}`, 1);
+    backend = ethersBackend(ethers.Wallet.createRandom().connect(provider));
+  });
+  after(() => new Promise<void>((resolve) => node.close(() => resolve())));
+
+  it("passes a call that returns", async () => {
+    callError = undefined;
+    assert.deepEqual(await backend.simulate(call), { reverted: false });
+  });
+
+  it("unwraps the node's revert from ethers' SERVER_ERROR", async () => {
+    callError = { code: 3, message: "execution reverted: STF", data: errorData("STF") };
+    assert.deepEqual(await backend.simulate(call), { reverted: true, revertData: errorData("STF") });
+  });
+
+  it("treats a revert without data as a revert", async () => {
+    callError = { code: -32000, message: "execution reverted" };
+    assert.deepEqual(await backend.simulate(call), { reverted: true, revertData: undefined });
+  });
+
+  it("rethrows node errors that are not reverts", async () => {
+    callError = { code: -32000, message: "insufficient funds for gas * price + value" };
+    await assert.rejects(backend.simulate(call), /insufficient funds/);
+  });
+});
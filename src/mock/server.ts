@@ -0,0 +1,138 @@
+/**
+ * Stand-in for the Kana aggregator API. Serves the /v1 endpoints the examples
+ * call with scenario-driven fixtures, so flows can run without network:
+ *
+ *   tsx src/mock/server.ts --port 4010 --scenario multi-quote
+ *   KANA_API_URL=http://127.0.0.1:4010 tsx src/same-chain/aptos/swap.ts
+ *
+ * A single request can switch scenario with an `X-Mock-Scenario` header.
+ * Circle's `/messages/{domain}/{txHash}` attestation endpoint is served too,
+ * so pollers can be pointed at the mock.
+ */
+
+import http, { IncomingMessage, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { NetworkId } from "../constant";
+import {
+  Scenario,
+  SCENARIOS,
+  attestation,
+  claimInstruction,
+  crossChainQuotes,
+  crossChainTransfer,
+  isScenario,
+  swapInstruction,
+  swapQuotes,
+} from "./fixtures";
+
+export interface MockServerOptions {
+  port?: number;
+  scenario?: Scenario;
+  /** 429 responses sent per endpoint before it answers in "rate-limited". */
+  rateLimitedCalls?: number;
+  /** Attestation polls per message answered "PENDING" before it is ready. */
+  pendingPolls?: number;
+  log?: (message: string) => void;
+}
+
+export interface MockServer {
+  url: string;
+  close(): Promise<void>;
+}
+
+type Handler = (scenario: Scenario, query: Record<string, string>, body: any) => unknown;
+
+const ROUTES: Record<string, Handler> = {
+  "GET /v1/swapQuote": (scenario, query) => swapQuotes(scenario, query),
+  "POST /v1/swapInstruction": (scenario, _, body) => swapInstruction(scenario, body),
+  "GET /v1/crossChainQuote": (scenario, query) => crossChainQuotes(scenario, query),
+  "POST /v1/crossChainTransfer": (_, __, body) => crossChainTransfer(body),
+  "POST /v1/claim": (_, __, body) =>
+    claimInstruction(Number(body.quote?.targetChain) as NetworkId, body.targetAddress),
+  "POST /v1/redeem": (_, __, body) =>
+    claimInstruction(Number(body.targetChainID) as NetworkId, body.targetAddress),
+};
+
+// Circle answers without the Kana envelope.
+const ATTESTATION_PATH = /^\/messages\/\d+\/\w+$/;
+
+async function readBody(req: IncomingMessage): Promise<any> {
+  let raw = "";
+  for await (const chunk of req) raw += chunk;
+  return raw ? JSON.parse(raw) : {};
+}
+
+function send(res: ServerResponse, status: number, body: unknown, headers = {}) {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+}
+
+export function startMockServer(options: MockServerOptions = {}): Promise<MockServer> {
+  const {
+    port = 4010,
+    scenario: defaultScenario = "default",
+    rateLimitedCalls = 2,
+    pendingPolls = 1,
+    log = (message) => console.log(message),
+  } = options;
+  const rejected: Record<string, number> = {};
+  const polls: Record<string, number> = {};
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://mock.local");
+    const route = `${req.method} ${url.pathname}`;
+    const header = req.headers["x-mock-scenario"];
+    const scenario = isScenario(header) ? header : defaultScenario;
+    log(`→ ${route} [${scenario}]`);
+
+    if (req.method === "GET" && ATTESTATION_PATH.test(url.pathname)) {
+      polls[url.pathname] = (polls[url.pathname] ?? 0) + 1;
+      return send(res, 200, attestation(polls[url.pathname] > pendingPolls));
+    }
+
+    const handler = ROUTES[route];
+    if (!handler) return send(res, 404, { success: false, message: `No mock for ${route}` });
+
+    if (scenario === "rate-limited" && (rejected[route] ?? 0) < rateLimitedCalls) {
+      rejected[route] = (rejected[route] ?? 0) + 1;
+      return send(res, 429, { success: false, message: "Too many requests" }, { "Retry-After": "1" });
+    }
+
+    try {
+      const query = Object.fromEntries(url.searchParams.entries());
+      const data = handler(scenario, query, await readBody(req));
+      send(res, 200, { success: true, message: "mock", data });
+    } catch (err: any) {
+      send(res, 400, { success: false, message: err.message });
+    }
+  });
+
+  return new Promise((resolve) => {
+    server.listen(port, "127.0.0.1", () => {
+      const { port: bound } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${bound}`,
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+/* ------------------ CLI ------------------ */
+
+function argValue(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+if (require.main === module) {
+  const scenario = argValue("scenario") ?? process.env.MOCK_SCENARIO ?? "default";
+  if (!isScenario(scenario)) {
+    console.error(`Unknown scenario "${scenario}" (expected one of ${SCENARIOS.join(", ")})`);
+    process.exit(1);
+  }
+
+  startMockServer({ port: Number(argValue("port") ?? 4010), scenario }).then(({ url }) => {
+    console.log(`🧪 Mock Kana API on ${url} (scenario: ${scenario})`);
+  });
+}
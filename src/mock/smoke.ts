@@ -0,0 +1,272 @@
+/**
+ * Runs the same-chain flows and a cross-chain flow against the mock server,
+ * once per scenario, and fails when one behaves differently than the scenario
+ * promises:
+ *
+ *   pnpm test:mock
+ *
+ * Each same-chain flow is the quote → instruction half of its script under
+ * src/same-chain, with the same tokens and schemas. The cross-chain flow asks
+ * for the quote, transfer, claim and redeem instructions an EVM → Solana
+ * script would. Signing and sending need a chain, so they are left out. The
+ * default scenario is also recorded to a cassette and replayed with the server
+ * stopped.
+ */
+
+import assert from "assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Cassette } from "../cassette";
+import { BridgeId, NetworkId } from "../constant";
+import { KanaResponseError, MaxInputExceededError, NoQuoteError } from "../errors";
+import { KanaClient } from "../kanaClient";
+import {
+  aptosSwapQuoteSchema,
+  evmSwapInstructionSchema,
+  evmTransferInstructionSchema,
+  solanaClaimInstructionSchema,
+  solanaSwapInstructionSchema,
+  tonSwapQuoteSchema,
+} from "../schemas";
+import { Scenario } from "./fixtures";
+import { startMockServer } from "./server";
+
+/* ------------------ FLOWS ------------------ */
+
+const APTOS_ADDRESS = "0x1";
+const EVM_ADDRESS = "0x000000000000000000000000000000000000dEaD";
+const SOLANA_ADDRESS = "11111111111111111111111111111111";
+
+// Stand-ins for the Circle message and attestation a claim is built from.
+const MESSAGE_BYTES = "0x00";
+const ATTESTATION_SIGNATURE = "0x00";
+
+interface Flow {
+  name: string;
+  run(client: KanaClient, scenario: Scenario): Promise<void>;
+}
+
+async function evmSwap(client: KanaClient, chain: NetworkId, inputToken: string, outputToken: string) {
+  const { quote } = await client.getBestSwapQuote({
+    inputToken,
+    outputToken,
+    chain,
+    amountIn: "1000000000000000000",
+    slippage: 0.5,
+  });
+  const { instruction, quote: built } = await client.getSwapInstruction(
+    { quote, address: EVM_ADDRESS },
+    evmSwapInstructionSchema
+  );
+  assert.equal(instruction.swapIX?.from, EVM_ADDRESS);
+  assert.equal(built, quote, "a fresh quote is built as is");
+}
+
+const FLOWS: Flow[] = [
+  {
+    name: "aptos",
+    async run(client) {
+      const { quote } = await client.getBestSwapQuote(
+        {
+          inputToken: "APT",
+          outputToken: "USDt",
+          chain: NetworkId.aptos,
+          amountIn: "200000000",
+          slippage: 0.5,
+          sender: APTOS_ADDRESS,
+        },
+        aptosSwapQuoteSchema
+      );
+      assert.ok(quote.instruction.function, "the quote carries the entry function");
+    },
+  },
+  { name: "evm (ethers)", run: (client) => evmSwap(client, NetworkId.polygon, "POL", "USDC.e") },
+  { name: "evm (viem)", run: (client) => evmSwap(client, NetworkId.Arbitrum, "ETH", "USDC") },
+  {
+    name: "evm ExactOut",
+    async run(client) {
+      const { quote } = await client.getBestSwapQuote({
+        inputToken: "POL",
+        outputToken: "USDC.e",
+        chain: NetworkId.polygon,
+        swapMode: "ExactOut",
+        amountOut: "10000000",
+        maxAmountIn: "10200000",
+        slippage: 0.5,
+      });
+      assert.ok(BigInt(quote.amountIn ?? 0) <= BigInt(10200000), "the route stays under the input cap");
+
+      await assert.rejects(
+        client.getBestSwapQuote({
+          inputToken: "POL",
+          outputToken: "USDC.e",
+          chain: NetworkId.polygon,
+          swapMode: "ExactOut",
+          amountOut: "10000000",
+          maxAmountIn: "10000000",
+          slippage: 0.5,
+        }),
+        MaxInputExceededError
+      );
+    },
+  },
+  {
+    name: "solana",
+    async run(client) {
+      const { quote } = await client.getBestSwapQuote({
+        inputToken: "SOL",
+        outputToken: "USDC",
+        chain: NetworkId.solana,
+        amountIn: "10000000",
+        slippage: 0.5,
+      });
+      const { instruction: { swapTransaction } } = await client.getSwapInstruction(
+        { quote, address: SOLANA_ADDRESS },
+        solanaSwapInstructionSchema
+      );
+      assert.ok(swapTransaction, "the instruction carries a transaction");
+    },
+  },
+  {
+    name: "ton",
+    async run(client) {
+      const { quote } = await client.getBestSwapQuote(
+        { inputToken: "TON", outputToken: "USDT", chain: NetworkId.ton, amountIn: "1000000000", slippage: 0.5 },
+        tonSwapQuoteSchema
+      );
+      assert.ok(quote.instruction, "the quote carries the TON message");
+    },
+  },
+  {
+    name: "cross-chain evm → solana",
+    async run(client, scenario) {
+      const { quote } = await client.getBestCrossChainQuote({
+        sourceToken: "POL",
+        targetToken: "SOL",
+        sourceChain: NetworkId.polygon,
+        targetChain: NetworkId.solana,
+        amountIn: "1000000000000000000",
+        sourceSlippage: 0.5,
+        targetSlippage: 0.5,
+      });
+      assert.ok(quote.sourceSwapRoute, "POL is swapped into the bridge token first");
+      assert.equal(quote.targetSwapRoute === null, scenario === "no-target-swap", "target swap per scenario");
+
+      const { instruction, quote: built } = await client.getCrossChainTransfer(
+        { quote, sourceAddress: EVM_ADDRESS, targetAddress: SOLANA_ADDRESS },
+        evmTransferInstructionSchema
+      );
+      assert.equal(instruction.transferIX.from, EVM_ADDRESS);
+      assert.equal(built, quote, "a fresh quote is built as is");
+
+      const claim = await client.getClaimInstruction(
+        {
+          quote: built,
+          targetAddress: SOLANA_ADDRESS,
+          messageBytes: MESSAGE_BYTES,
+          attestationSignature: ATTESTATION_SIGNATURE,
+        },
+        solanaClaimInstructionSchema
+      );
+      assert.ok(claim.claimIx, "the claim carries a transaction");
+
+      const redeem = await client.getRedeemInstruction(
+        {
+          sourceChainID: NetworkId.polygon,
+          targetChainID: NetworkId.solana,
+          bridgeID: BridgeId.cctp,
+          targetAddress: SOLANA_ADDRESS,
+          messageBytes: MESSAGE_BYTES,
+          attestationSignature: ATTESTATION_SIGNATURE,
+        },
+        solanaClaimInstructionSchema
+      );
+      assert.ok(redeem.claimIx, "the redeem carries a transaction");
+    },
+  },
+];
+
+/* ------------------ SCENARIOS ------------------ */
+
+type Expectation = "ok" | (new (...args: any[]) => Error);
+
+/** What each flow should do per scenario; flows not listed should succeed. */
+const EXPECTED: Partial<Record<Scenario, Record<string, Expectation>>> = {
+  empty: Object.fromEntries(FLOWS.map(({ name }) => [name, NoQuoteError])),
+  "no-swap-transaction": { solana: KanaResponseError },
+};
+
+const RUN: Scenario[] = [
+  "default",
+  "multi-quote",
+  "rate-limited",
+  "empty",
+  "no-swap-transaction",
+  "no-target-swap",
+];
+
+async function runFlows(label: string, client: KanaClient, scenario: Scenario): Promise<string[]> {
+  const failures: string[] = [];
+  for (const flow of FLOWS) {
+    const expected = EXPECTED[scenario]?.[flow.name] ?? "ok";
+    try {
+      if (expected === "ok") await flow.run(client, scenario);
+      else await assert.rejects(flow.run(client, scenario), expected);
+      console.log(`  ✅ ${flow.name}`);
+    } catch (err) {
+      failures.push(`${label} / ${flow.name}: ${err instanceof Error ? err.message : err}`);
+      console.log(`  ❌ ${flow.name}`);
+    }
+  }
+  return failures;
+}
+
+const quiet = { log: () => undefined };
+
+async function runScenario(scenario: Scenario, cassette?: Cassette): Promise<string[]> {
+  // Every scenario gets a fresh server, so rate limits start over.
+  const server = await startMockServer({ port: 0, scenario, ...quiet });
+  try {
+    return await runFlows(scenario, new KanaClient({ baseURL: server.url, retry: quiet, cassette }), scenario);
+  } finally {
+    await server.close();
+  }
+}
+
+/** Records the default scenario, then replays it; the stopped server proves nothing reaches the network. */
+async function runCassette(): Promise<string[]> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "kana-cassette-"));
+  const file = path.join(dir, "default.json");
+  try {
+    const recorded = await runScenario("default", new Cassette(file, "record"));
+    if (recorded.length) return recorded;
+
+    console.log("  ↪ replaying");
+    const replay = new Cassette(file, "replay");
+    const client = new KanaClient({ baseURL: "http://127.0.0.1:9", retry: false, cassette: replay });
+    return await runFlows("cassette replay", client, "default");
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+if (require.main === module) {
+  (async () => {
+    const failures: string[] = [];
+    for (const scenario of RUN) {
+      console.log(`🧪 ${scenario}`);
+      failures.push(...(await runScenario(scenario)));
+    }
+    console.log("🧪 cassette record and replay");
+    failures.push(...(await runCassette()));
+    if (failures.length) {
+      console.error(`\n${failures.length} flow(s) failed:\n  ${failures.join("\n  ")}`);
+      process.exit(1);
+    }
+    console.log("\n🎉 Every flow behaved as its scenario expects");
+  })().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,88 @@
+import { ChainName, getKanaConfig } from "./config";
+import { NetworkId } from "./constant";
+import { ProviderNotAllowedError } from "./errors";
+import { CrossChainQuote, CrossChainQuoteParams, SwapQuote, SwapQuoteParams } from "./types";
+
+/* ------------------ POLICY ------------------ */
+
+export interface ProviderPolicy {
+  /** When set, only these providers are accepted. */
+  include?: string[];
+  exclude?: string[];
+}
+
+/** One swap leg of a route: the chain it runs on and who routes it. */
+export interface ProviderLeg {
+  chain: NetworkId;
+  provider?: string;
+  policy: ProviderPolicy;
+}
+
+/**
+ * The policy for swaps on `chain`: each list from `override` when given,
+ * otherwise from the chain's `includeProviders` / `excludeProviders` settings.
+ */
+export function providerPolicy(chain: NetworkId, override: ProviderPolicy = {}): ProviderPolicy {
+  const settings = getKanaConfig().chains[NetworkId[chain] as ChainName] ?? {};
+  return {
+    include: override.include ?? settings.includeProviders,
+    exclude: override.exclude ?? settings.excludeProviders,
+  };
+}
+
+const matches = (list: string[] | undefined, provider: string | undefined) =>
+  !!provider && !!list?.some((name) => name.toLowerCase() === provider.toLowerCase());
+
+/** Why the leg breaks its policy, or undefined when it is allowed. */
+function violation({ provider, policy }: ProviderLeg): string | undefined {
+  if (matches(policy.exclude, provider)) return "is excluded";
+  // A leg that does not name its provider cannot satisfy an include list.
+  if (policy.include?.length && !matches(policy.include, provider)) {
+    return `is not one of ${policy.include.join(", ")}`;
+  }
+  return undefined;
+}
+
+/* ------------------ ROUTE LEGS ------------------ */
+
+export function swapProviderLegs(
+  params: Pick<SwapQuoteParams, "chain" | "providers">
+): (quote: SwapQuote) => ProviderLeg[] {
+  const policy = providerPolicy(params.chain, params.providers);
+  return (quote) => [{ chain: params.chain, provider: quote.provider, policy }];
+}
+
+/** The source and target swaps; the bridge in between is not a swap provider. */
+export function crossChainProviderLegs(
+  params: CrossChainQuoteParams
+): (quote: CrossChainQuote) => ProviderLeg[] {
+  const sourcePolicy = providerPolicy(params.sourceChain, params.sourceProviders);
+  const targetPolicy = providerPolicy(params.targetChain, params.targetProviders);
+  return (quote) => {
+    const legs: ProviderLeg[] = [];
+    if (quote.sourceSwapRoute) {
+      legs.push({ chain: params.sourceChain, provider: quote.sourceSwapRoute.provider, policy: sourcePolicy });
+    }
+    if (quote.targetSwapRoute) {
+      legs.push({ chain: params.targetChain, provider: quote.targetSwapRoute.provider, policy: targetPolicy });
+    }
+    return legs;
+  };
+}
+
+/* ------------------ CHECKS ------------------ */
+
+/** Throws when any leg of the route uses a provider its chain's policy rules out. */
+export function checkProviders(legs: ProviderLeg[]): void {
+  for (const leg of legs) {
+    const reason = violation(leg);
+    if (reason) throw new ProviderNotAllowedError(NetworkId[leg.chain], leg.provider, reason);
+  }
+}
+
+/** Keeps the quotes whose every leg is allowed; throws the first refusal when none is. */
+export function allowedByProvider<T>(quotes: T[], legsOf: (quote: T) => ProviderLeg[]): T[] {
+  const allowed = quotes.filter((quote) => legsOf(quote).every((leg) => !violation(leg)));
+  if (quotes.length && !allowed.length) checkProviders(legsOf(quotes[0]));
+  return allowed;
+}
@@ -0,0 +1,116 @@
+import { providerPolicy } from "./providers";
+import { addressKey } from "./tokens";
+import { SwapQuoteParams } from "./types";
+
+/* ------------------ KEYS ------------------ */
+
+/**
+ * Rounds a base-unit amount down to `digits` significant digits, so that
+ * amounts within a fraction of a percent of each other share a cache entry.
+ */
+export function amountBucket(amount: string | number, digits: number): string {
+  const value = String(amount).split(".")[0];
+  if (digits <= 0 || value.length <= digits) return value;
+  return value.slice(0, digits) + "0".repeat(value.length - digits);
+}
+
+/** Everything that changes which routes `/v1/swapQuote` returns, and in what order they rank. */
+export function swapQuoteKey(params: SwapQuoteParams, digits: number, strategy?: string): string {
+  const policy = providerPolicy(params.chain, params.providers);
+  const amount =
+    params.swapMode === "ExactOut"
+      ? ["ExactOut", amountBucket(params.amountOut, digits), params.maxAmountIn ?? ""]
+      : ["ExactIn", amountBucket(params.amountIn, digits)];
+  const list = (names?: string[]) => [...(names ?? [])].map((name) => name.toLowerCase()).sort().join(",");
+
+  return JSON.stringify([
+    params.chain,
+    addressKey(params.chain, params.inputToken),
+    addressKey(params.chain, params.outputToken),
+    ...amount,
+    String(params.slippage ?? ""),
+    list(policy.include),
+    list(policy.exclude),
+    list(params.evmExchange),
+    params.sender ? addressKey(params.chain, params.sender) : "",
+    strategy ?? "",
+  ]);
+}
+
+/* ------------------ CACHE ------------------ */
+
+/** "network" when this call fetched, "in-flight" when it joined an identical pending call. */
+export type CacheSource = "network" | "cache" | "in-flight";
+
+export interface CacheHit<T> {
+  value: T;
+  source: CacheSource;
+  /** When the value was fetched, in epoch milliseconds. */
+  fetchedAt: number;
+}
+
+interface Entry<T> {
+  promise: Promise<T>;
+  /** Unset while the fetch is pending. */
+  fetchedAt?: number;
+}
+
+/**
+ * Keeps each fetched value for `ttlMs()` and hands concurrent callers for the
+ * same key one shared request. Failed fetches are not cached.
+ */
+export class QuoteCache<T> {
+  private readonly entries = new Map<string, Entry<T>>();
+
+  constructor(private readonly ttlMs: () => number) {}
+
+  async get(key: string, fetch: () => Promise<T>): Promise<CacheHit<T>> {
+    const now = Date.now();
+    const existing = this.entries.get(key);
+
+    if (existing && existing.fetchedAt === undefined) {
+      const value = await existing.promise;
+      return { value, source: "in-flight", fetchedAt: existing.fetchedAt ?? Date.now() };
+    }
+    if (existing && now - existing.fetchedAt! < this.ttlMs()) {
+      return { value: await existing.promise, source: "cache", fetchedAt: existing.fetchedAt! };
+    }
+
+    this.prune(now);
+    const entry: Entry<T> = { promise: fetch() };
+    this.entries.set(key, entry);
+    try {
+      const value = await entry.promise;
+      entry.fetchedAt = Date.now();
+      if (this.ttlMs() <= 0) this.entries.delete(key);
+      return { value, source: "network", fetchedAt: entry.fetchedAt };
+    } catch (err) {
+      if (this.entries.get(key) === entry) this.entries.delete(key);
+      throw err;
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  private prune(now: number): void {
+    for (const [key, entry] of this.entries) {
+      if (entry.fetchedAt !== undefined && now - entry.fetchedAt >= this.ttlMs()) this.entries.delete(key);
+    }
+  }
+}
+
+/* ------------------ INDICATIVE QUOTES ------------------ */
+
+// Quotes served through the cache; getSwapInstruction refuses them.
+const indicative = new WeakSet<object>();
+
+export function markIndicative<T extends object>(quote: T): T {
+  indicative.add(quote);
+  return quote;
+}
+
+export function isIndicative(quote: object): boolean {
+  return indicative.has(quote);
+}
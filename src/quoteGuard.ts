@@ -0,0 +1,181 @@
+import readline from "readline/promises";
+import { QuotePolicy, getKanaConfig } from "./config";
+import { ProviderLeg, checkProviders } from "./providers";
+import {
+  IndicativeQuoteError,
+  MinimumOutputError,
+  MissingQuoteAmountError,
+  PriceImpactError,
+  QuoteDriftError,
+  StaleQuoteError,
+} from "./errors";
+import { isIndicative } from "./quoteCache";
+import { toBaseUnits } from "./quoteSelection";
+import { SwapRoute } from "./types";
+
+/* ------------------ TRACKING ------------------ */
+
+interface TrackedQuote<T> {
+  fetchedAt: number;
+  /** "output" for ExactIn quotes, "input" for ExactOut quotes, whose output is fixed. */
+  side: "input" | "output";
+  /** The amount on `side` the quote promised, in base units. */
+  amount: (quote: T) => bigint;
+  /** Fetches the same route again; absent when the caller picked the quote by hand. */
+  requote?: () => Promise<T>;
+  /** Least output the quote guarantees, in output-token base units. */
+  minimumOut: (quote: T) => bigint;
+  /** Percent; undefined when the quote does not say. */
+  priceImpact: (quote: T) => number | undefined;
+  /** The caller's floor for `minimumOut`. */
+  minAmountOut?: string | number;
+  /** Who routes each swap leg, with the provider policy it must satisfy. */
+  providerLegs: (quote: T) => ProviderLeg[];
+}
+
+// Kept beside the quote rather than on it: quotes are echoed back to the API.
+const tracked = new WeakMap<object, TrackedQuote<any>>();
+
+export function trackQuote<T extends object>(quote: T, tracking: TrackedQuote<T>): T {
+  tracked.set(quote, tracking);
+  return quote;
+}
+
+/** When the quote was fetched, in epoch milliseconds. */
+export function quoteFetchedAt(quote: object): number | undefined {
+  return tracked.get(quote)?.fetchedAt;
+}
+
+/* ------------------ DRIFT ------------------ */
+
+/** Percentage the output fell by; negative when it improved. */
+export function outputDrift(original: unknown, fresh: unknown): number {
+  const before = toBaseUnits(original);
+  if (before === BigInt(0)) return 0;
+  const lossBps = ((before - toBaseUnits(fresh)) * BigInt(10_000)) / before;
+  return Number(lossBps) / 100;
+}
+
+/** Percentage the input cost rose by; negative when it improved. */
+export function inputDrift(original: unknown, fresh: unknown): number {
+  return -outputDrift(original, fresh);
+}
+
+async function confirm(question: string): Promise<boolean> {
+  if (!process.stdin.isTTY) return false;
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    return /^y(es)?$/i.test((await rl.question(`${question} [y/N] `)).trim());
+  } finally {
+    rl.close();
+  }
+}
+
+async function enforceDrift(
+  label: string,
+  drift: number,
+  original: unknown,
+  fresh: unknown,
+  policy: QuotePolicy
+): Promise<void> {
+  if (drift <= policy.maxDriftPercent) return;
+
+  const error = new QuoteDriftError(
+    label,
+    String(original),
+    String(fresh),
+    drift,
+    policy.maxDriftPercent
+  );
+  if (policy.onDrift === "ask" && (await confirm(`⚠️  ${error.message}. Continue?`))) return;
+  throw error;
+}
+
+/**
+ * Fails (or asks) when a fresh quote pays out less than the original by more
+ * than the tolerance. Better outputs always pass; a missing original output
+ * fails, since there is nothing to hold the fresh one to.
+ */
+export async function checkDrift(
+  label: string,
+  original: unknown,
+  fresh: unknown,
+  policy: QuotePolicy = getKanaConfig().quotes
+): Promise<void> {
+  if (toBaseUnits(original) === BigInt(0)) throw new MissingQuoteAmountError(label);
+  return enforceDrift(`${label} output`, outputDrift(original, fresh), original, fresh, policy);
+}
+
+/** As `checkDrift`, for ExactOut quotes: fails when the input cost rose too far. */
+export async function checkInputDrift(
+  label: string,
+  original: unknown,
+  fresh: unknown,
+  policy: QuotePolicy = getKanaConfig().quotes
+): Promise<void> {
+  if (toBaseUnits(original) === BigInt(0)) throw new MissingQuoteAmountError(label);
+  return enforceDrift(`${label} input`, inputDrift(original, fresh), original, fresh, policy);
+}
+
+/**
+ * What `route` pays out for `amountIn` at its quoted rate; undefined when it
+ * quotes no output. A bridged amount rarely equals the route's own input, so
+ * a re-quote for it is compared against this rather than `route.amountOut`.
+ */
+export function routeOutputFor(route: SwapRoute, amountIn: unknown): bigint | undefined {
+  const quotedIn = toBaseUnits(route.amountIn);
+  const quotedOut = toBaseUnits(route.amountOut);
+  if (quotedIn === BigInt(0) || quotedOut === BigInt(0)) return undefined;
+  return (quotedOut * toBaseUnits(amountIn)) / quotedIn;
+}
+
+/* ------------------ FRESHNESS ------------------ */
+
+/**
+ * Returns the quote when it is younger than `maxAgeSeconds`. Otherwise fetches
+ * the route again, checks the new output against the old one and returns the
+ * new quote. Cached quotes from `getIndicativeSwapQuote` are refused outright.
+ */
+export async function ensureFreshQuote<T extends object>(
+  quote: T,
+  policy: QuotePolicy = getKanaConfig().quotes
+): Promise<T> {
+  if (isIndicative(quote)) throw new IndicativeQuoteError();
+  const tracking = tracked.get(quote) as TrackedQuote<T> | undefined;
+  if (!tracking) return quote;
+
+  const ageMs = Date.now() - tracking.fetchedAt;
+  if (ageMs <= policy.maxAgeSeconds * 1000) return quote;
+  if (!tracking.requote) throw new StaleQuoteError(ageMs, policy.maxAgeSeconds);
+
+  console.log(`⏳ Quote is ${(ageMs / 1000).toFixed(0)}s old, re-quoting...`);
+  const fresh = await tracking.requote();
+  const check = tracking.side === "input" ? checkInputDrift : checkDrift;
+  await check("Quote", tracking.amount(quote), tracking.amount(fresh), policy);
+  return fresh;
+}
+
+/* ------------------ LIMITS ------------------ */
+
+/**
+ * Refuses a quote whose price impact is above `maxPriceImpactPercent`, whose
+ * guaranteed output is below the caller's `minAmountOut`, or whose route uses a
+ * provider the chain's policy rules out. Quotes that did not come from
+ * `getBest*Quote` are not checked.
+ */
+export function checkQuoteLimits(quote: object, policy: QuotePolicy = getKanaConfig().quotes): void {
+  const tracking = tracked.get(quote);
+  if (!tracking) return;
+
+  const priceImpact = tracking.priceImpact(quote);
+  if (priceImpact !== undefined && priceImpact > policy.maxPriceImpactPercent) {
+    throw new PriceImpactError(priceImpact, policy.maxPriceImpactPercent);
+  }
+
+  const minimumOut = tracking.minimumOut(quote);
+  if (tracking.minAmountOut !== undefined && minimumOut < toBaseUnits(tracking.minAmountOut)) {
+    throw new MinimumOutputError(minimumOut.toString(), String(tracking.minAmountOut));
+  }
+
+  checkProviders(tracking.providerLegs(quote));
+}
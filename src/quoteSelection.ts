@@ -0,0 +1,226 @@
+import { NoQuoteError } from "./errors";
+import { CrossChainQuote, SwapQuote } from "./types";
+
+/* ------------------ TYPES ------------------ */
+
+export interface RankedQuote<T> {
+  quote: T;
+  /** Position in the array the API returned. */
+  index: number;
+  provider: string;
+  amountIn: bigint;
+  amountOut: bigint;
+  /** Estimated gas on the execution chain, in output-token base units. */
+  gasCost: bigint;
+  netOut: bigint;
+  /** Percent; undefined when the quote does not say. */
+  priceImpact?: number;
+  hops: number;
+}
+
+export interface RejectedQuote<T> extends RankedQuote<T> {
+  /** Why the chosen quote ranked above this one. */
+  reason: string;
+}
+
+export interface QuoteSelection<T> {
+  quote: T;
+  chosen: RankedQuote<T>;
+  rejected: RejectedQuote<T>[];
+  strategy: string;
+}
+
+export interface QuoteStrategy {
+  name: string;
+  /** Negative when `a` should be preferred over `b`. */
+  compare(a: RankedQuote<unknown>, b: RankedQuote<unknown>): number;
+  /** Explains why `winner` beat `loser`. */
+  explain(winner: RankedQuote<unknown>, loser: RankedQuote<unknown>): string;
+}
+
+export interface SelectionOptions<T> {
+  strategy?: QuoteStrategy;
+  /**
+   * Gas the route will cost on the execution chain, in output-token base units.
+   * `KanaClient` defaults to its `swapGasCost` / `crossChainGasCost`; without
+   * one, `selectQuote` compares routes gross of gas.
+   */
+  gasCost?: (quote: T) => bigint | Promise<bigint>;
+}
+
+/* ------------------ STRATEGIES ------------------ */
+
+const byNetOut = (a: RankedQuote<unknown>, b: RankedQuote<unknown>) =>
+  a.netOut === b.netOut ? 0 : a.netOut > b.netOut ? -1 : 1;
+
+// Unknown impact sorts after any known impact.
+const byImpact = (a: RankedQuote<unknown>, b: RankedQuote<unknown>) =>
+  (a.priceImpact ?? Infinity) - (b.priceImpact ?? Infinity);
+
+const byHops = (a: RankedQuote<unknown>, b: RankedQuote<unknown>) => a.hops - b.hops;
+
+const byAmountIn = (a: RankedQuote<unknown>, b: RankedQuote<unknown>) =>
+  a.amountIn === b.amountIn ? 0 : a.amountIn < b.amountIn ? -1 : 1;
+
+function chain(...comparators: QuoteStrategy["compare"][]): QuoteStrategy["compare"] {
+  return (a, b) => {
+    for (const compare of comparators) {
+      const result = compare(a, b);
+      if (result !== 0) return result;
+    }
+    return a.index - b.index;
+  };
+}
+
+function explainDifference(winner: RankedQuote<unknown>, loser: RankedQuote<unknown>): string {
+  if (winner.netOut !== loser.netOut) {
+    return `net output ${loser.netOut} < ${winner.netOut}`;
+  }
+  if ((winner.priceImpact ?? Infinity) !== (loser.priceImpact ?? Infinity)) {
+    return `price impact ${loser.priceImpact ?? "unknown"}% > ${winner.priceImpact}%`;
+  }
+  if (winner.hops !== loser.hops) return `${loser.hops} hops > ${winner.hops}`;
+  return "tied; the API listed it later";
+}
+
+/** Highest output after gas; ties go to lower impact, then fewer hops. */
+export const maxOut: QuoteStrategy = {
+  name: "max-out",
+  compare: chain(byNetOut, byImpact, byHops),
+  explain: explainDifference,
+};
+
+/** Lowest price impact; ties go to higher net output, then fewer hops. */
+export const minImpact: QuoteStrategy = {
+  name: "min-impact",
+  compare: chain(byImpact, byNetOut, byHops),
+  explain(winner, loser) {
+    if ((winner.priceImpact ?? Infinity) !== (loser.priceImpact ?? Infinity)) {
+      return `price impact ${loser.priceImpact ?? "unknown"}% > ${winner.priceImpact}%`;
+    }
+    return explainDifference(winner, loser);
+  },
+};
+
+/** Lowest input, for ExactOut quotes whose output is fixed; ties as max-out. */
+export const minIn: QuoteStrategy = {
+  name: "min-in",
+  compare: chain(byAmountIn, byNetOut, byImpact, byHops),
+  explain(winner, loser) {
+    if (winner.amountIn !== loser.amountIn) {
+      return `input ${loser.amountIn} > ${winner.amountIn}`;
+    }
+    return explainDifference(winner, loser);
+  },
+};
+
+/** Routes from the listed providers first, in list order, then by max-out. */
+export function preferredProvider(providers: string[]): QuoteStrategy {
+  const rank = (quote: RankedQuote<unknown>) => {
+    const index = providers.findIndex((p) => p.toLowerCase() === quote.provider.toLowerCase());
+    return index === -1 ? providers.length : index;
+  };
+  return {
+    name: `preferred-provider(${providers.join(",")})`,
+    compare: chain((a, b) => rank(a) - rank(b), maxOut.compare),
+    explain(winner, loser) {
+      if (rank(winner) !== rank(loser)) {
+        return rank(loser) === providers.length
+          ? `provider ${loser.provider} is not preferred`
+          : `provider ${loser.provider} ranks below ${winner.provider}`;
+      }
+      return explainDifference(winner, loser);
+    },
+  };
+}
+
+/* ------------------ QUOTE FIELDS ------------------ */
+
+/** Base-unit amount from a quote field; unparseable values count as zero. */
+export function toBaseUnits(value: unknown): bigint {
+  try {
+    return BigInt(String(value ?? 0).split(".")[0]);
+  } catch {
+    return BigInt(0);
+  }
+}
+
+/** Absolute price impact in percent; undefined when missing or unparseable. */
+export function toImpact(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const impact = Math.abs(Number(value));
+  return Number.isFinite(impact) ? impact : undefined;
+}
+
+// Aggregators expose the path under different names; a quote without one is a single hop.
+function swapHops(quote: Record<string, unknown>): number {
+  if (typeof quote.hops === "number") return quote.hops;
+  const path = quote.route ?? quote.routes ?? quote.path;
+  return Array.isArray(path) && path.length ? path.length : 1;
+}
+
+export function swapQuoteFields(quote: SwapQuote) {
+  return {
+    provider: quote.provider ?? "unknown",
+    amountIn: toBaseUnits(quote.amountIn),
+    amountOut: toBaseUnits(quote.amountOut),
+    priceImpact: toImpact(quote.priceImpact),
+    hops: swapHops(quote),
+  };
+}
+
+/** Source swap and target swap impacts add up; the bridge leg counts as one hop. */
+export function crossChainQuoteFields(quote: CrossChainQuote) {
+  const legs = [quote.sourceSwapRoute, quote.targetSwapRoute].filter(
+    (leg): leg is NonNullable<typeof leg> => !!leg
+  );
+  const impacts = legs.map((leg) => toImpact(leg.priceImpact));
+  const known = impacts.filter((impact): impact is number => impact !== undefined);
+
+  return {
+    provider: String(quote.provider ?? quote.bridge ?? "unknown"),
+    amountIn: toBaseUnits(quote.inAmount),
+    amountOut: toBaseUnits(quote.outAmount),
+    priceImpact: known.length ? known.reduce((sum, impact) => sum + impact, 0) : toImpact(quote.priceImpact),
+    hops: 1 + legs.reduce((sum, leg) => sum + swapHops(leg), 0),
+  };
+}
+
+/* ------------------ SELECTION ------------------ */
+
+export async function selectQuote<T>(
+  endpoint: string,
+  quotes: T[],
+  fields: (quote: T) => Pick<RankedQuote<T>, "provider" | "amountIn" | "amountOut" | "priceImpact" | "hops">,
+  options: SelectionOptions<T> = {}
+): Promise<QuoteSelection<T>> {
+  if (!quotes.length) throw new NoQuoteError(endpoint);
+  const strategy = options.strategy ?? maxOut;
+
+  const ranked = await Promise.all(
+    quotes.map(async (quote, index): Promise<RankedQuote<T>> => {
+      const gasCost = options.gasCost ? await options.gasCost(quote) : BigInt(0);
+      const base = fields(quote);
+      return { quote, index, ...base, gasCost, netOut: base.amountOut - gasCost };
+    })
+  );
+  ranked.sort(strategy.compare);
+
+  const [chosen, ...rest] = ranked;
+  return {
+    quote: chosen.quote,
+    chosen,
+    rejected: rest.map((route) => ({ ...route, reason: strategy.explain(chosen, route) })),
+    strategy: strategy.name,
+  };
+}
+
+/** One line per route, winner first, for logs. */
+export function describeSelection(selection: QuoteSelection<unknown>): string {
+  const line = (route: RankedQuote<unknown>) =>
+    `${route.provider}: in ${route.amountIn}, out ${route.amountOut}, net ${route.netOut}, impact ${route.priceImpact ?? "?"}%, ${route.hops} hop(s)`;
+  return [
+    `Chosen by ${selection.strategy} — ${line(selection.chosen)}`,
+    ...selection.rejected.map((route) => `  rejected ${line(route)} (${route.reason})`),
+  ].join("\n");
+}
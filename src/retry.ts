@@ -0,0 +1,142 @@
+import { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from "axios";
+
+/* ------------------ POLICY ------------------ */
+
+export interface RetryPolicy {
+  /** Retries allowed for a single request, on top of the first attempt. */
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Retries shared by every request on the instance within `budgetWindowMs`. */
+  budget: number;
+  budgetWindowMs: number;
+  log: (message: string) => void;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 5,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+  budget: 20,
+  budgetWindowMs: 60_000,
+  log: (message) => console.log(message),
+};
+
+/* ------------------ IDEMPOTENCY ------------------ */
+
+/**
+ * Whether a failed call to an endpoint may be sent again after a 5xx. Quotes
+ * are read-only. The endpoints that build transactions may track state on the
+ * server (bridge transfers, claims, redeems), so a 5xx after they ran is not
+ * retried; a 429 still is. Endpoints missing here fall back to the HTTP method.
+ */
+export const KANA_ENDPOINT_IDEMPOTENCY: Record<string, boolean> = {
+  "/v1/swapQuote": true,
+  "/v1/crossChainQuote": true,
+  "/v1/swapInstruction": false,
+  "/v1/crossChainTransfer": false,
+  "/v1/claim": false,
+  "/v1/redeem": false,
+};
+
+const IDEMPOTENT_METHODS = ["get", "head", "options", "put", "delete"];
+
+function endpointOf(config: InternalAxiosRequestConfig): string {
+  return (config.url ?? "").split("?")[0];
+}
+
+export function isIdempotent(config: InternalAxiosRequestConfig): boolean {
+  const known = KANA_ENDPOINT_IDEMPOTENCY[endpointOf(config)];
+  if (known !== undefined) return known;
+  return IDEMPOTENT_METHODS.includes((config.method ?? "get").toLowerCase());
+}
+
+/* ------------------ BUDGET ------------------ */
+
+export class RetryBudget {
+  private spent: number[] = [];
+
+  constructor(private readonly limit: number, private readonly windowMs: number) {}
+
+  tryAcquire(now = Date.now()): boolean {
+    this.spent = this.spent.filter((at) => now - at < this.windowMs);
+    if (this.spent.length >= this.limit) return false;
+    this.spent.push(now);
+    return true;
+  }
+}
+
+/* ------------------ DELAY ------------------ */
+
+// Retry-After is either a number of seconds or an HTTP date.
+export function parseRetryAfter(header: unknown, now = Date.now()): number | undefined {
+  if (typeof header !== "string" && typeof header !== "number") return undefined;
+  // Number("") is 0, which would turn a blank header into an instant retry.
+  if (typeof header === "string" && !header.trim()) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(String(header));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+export function backoffDelay(attempt: number, policy: RetryPolicy): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  // Equal jitter: never retry instantly, never all at the same moment.
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+}
+
+/* ------------------ INTERCEPTOR ------------------ */
+
+interface RetryableConfig extends InternalAxiosRequestConfig {
+  retryAttempt?: number;
+}
+
+function isRetryableStatus(status: number, config: InternalAxiosRequestConfig) {
+  // A 429 means the request was rejected before it was processed.
+  if (status === 429) return true;
+  return status >= 500 && isIdempotent(config);
+}
+
+export function installRetryPolicy(
+  http: AxiosInstance,
+  overrides: Partial<RetryPolicy> = {}
+): RetryPolicy {
+  const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, ...overrides };
+  const budget = new RetryBudget(policy.budget, policy.budgetWindowMs);
+
+  http.interceptors.response.use(undefined, async (error: AxiosError) => {
+    const config = error.config as RetryableConfig | undefined;
+    const status = error.response?.status;
+    if (!config || status === undefined || !isRetryableStatus(status, config)) {
+      throw error;
+    }
+
+    const attempt = config.retryAttempt ?? 0;
+    const endpoint = endpointOf(config);
+    if (attempt >= policy.maxRetries) {
+      policy.log(`❌ ${endpoint} failed with ${status} after ${attempt} retries`);
+      throw error;
+    }
+    if (!budget.tryAcquire()) {
+      policy.log(`❌ ${endpoint} failed with ${status}: retry budget exhausted`);
+      throw error;
+    }
+
+    const delay = Math.min(
+      policy.maxDelayMs,
+      parseRetryAfter(error.response?.headers["retry-after"]) ??
+        backoffDelay(attempt, policy)
+    );
+    policy.log(
+      `⏳ ${endpoint} returned ${status}. Retry ${attempt + 1}/${policy.maxRetries} in ${(delay / 1000).toFixed(1)}s...`
+    );
+    await new Promise((r) => setTimeout(r, delay));
+
+    config.retryAttempt = attempt + 1;
+    return http.request(config);
+  });
+
+  return policy;
+}
@@ -1,68 +1,72 @@
-import axios from "axios";
 import "dotenv/config";
 import { Account, AccountAddress, Aptos, AptosConfig, Ed25519PrivateKey, Network, PrivateKey, PrivateKeyVariants } from "@aptos-labs/ts-sdk";
-import { KANA_API_URL, NetworkId } from "../../constant";
+import { chainConfig } from "../../config";
+import { NetworkId } from "../../constant";
+import { kanaClient } from "../../kanaClient";
+import { aptosSwapInstructionSchema } from "../../schemas";
+import { describeSwapAmounts, swapAmountParams } from "../../swapAmounts";
+import { AptosEntryFunctionPayload, SwapMode } from "../../types";
 
-const config = new AptosConfig({ network: Network.MAINNET });
+const aptosSettings = chainConfig(NetworkId.aptos, "privateKey");
+
+const config = new AptosConfig({ network: Network.MAINNET, fullnode: aptosSettings.rpcUrl });
 const aptos = new Aptos(config);
 
 // Constants
-const APTOS_PRIVATEKEY = "YOUR_APTOS_PRIVATE_KEY";
-const APTOS_ADDRESS = "YOUR_APTOS_WALLET_ADDRESS";
 const RECIPIENT_APTOS_ADDRESS = "YOUR_RECIPIENT_APTOS_ADDRESS";
 
-const FROM_TOKEN_ADDRESS = "0x1::aptos_coin::AptosCoin"
-const TO_TOKEN_ADDRESS = "0x357b0b74bc833e95a115ad22604854d6b0fca151cecd94111770e5d6ffc9dc2b"
+const FROM_TOKEN = "APT";
+const TO_TOKEN = "USDt";
 
-const AMOUNT_IN = 200000000 // 2 APT
+// ExactIn spends AMOUNT_IN; ExactOut buys exactly AMOUNT_OUT, spending at most MAX_AMOUNT_IN
+const SWAP_MODE: SwapMode = "ExactIn"
+const AMOUNT_IN = "2 APT"
+const AMOUNT_OUT = "10 USDt"
+const MAX_AMOUNT_IN = "3 APT"
 
 const SLIPPAGE_PERCENTAGE = 0.5
 
 const sender = Account.fromPrivateKey({
-    privateKey: new Ed25519PrivateKey(PrivateKey.formatPrivateKey(APTOS_PRIVATEKEY, PrivateKeyVariants.Ed25519)), // Aptos Privatekey  
-    address:  AccountAddress.from(APTOS_ADDRESS), // Aptos Address
+    privateKey: new Ed25519PrivateKey(PrivateKey.formatPrivateKey(aptosSettings.privateKey, PrivateKeyVariants.Ed25519)), // Aptos Privatekey  
+    address: aptosSettings.address ? AccountAddress.from(aptosSettings.address) : undefined, // Aptos Address (only for rotated keys)
     legacy: true,
   });
   
 export const kanaswap = async () => {
-const response = await axios.get(`${KANA_API_URL}/v1/swapQuote`, {
-    params: {
-      inputToken: FROM_TOKEN_ADDRESS, //APT
-      outputToken: TO_TOKEN_ADDRESS, //USDt
-      chain: NetworkId.aptos, //Aptos
-      amountIn: AMOUNT_IN, // amonut * token decimal eg: 2*100000000
-      slippage: SLIPPAGE_PERCENTAGE, //0.5%
-      sender: sender.publicKey.toString(), //sender address
-    },
-    headers: {
-      "Content-Type": "application/json",
-      "X-API-KEY": "//* YOUR API KEY *//",
-    },
+const amounts = await swapAmountParams(NetworkId.aptos, SWAP_MODE, {
+    amountIn: AMOUNT_IN,
+    amountOut: AMOUNT_OUT,
+    maxAmountIn: MAX_AMOUNT_IN,
   });
+const { quote } = await kanaClient.getBestSwapQuote({
+    inputToken: FROM_TOKEN, //APT
+    outputToken: TO_TOKEN, //USDt
+    chain: NetworkId.aptos, //Aptos
+    ...amounts, // amounts in base units (octas for APT)
+    slippage: SLIPPAGE_PERCENTAGE, //0.5%
+    sender: sender.publicKey.toString(), //sender address
+  });
+  console.log(await describeSwapAmounts(NetworkId.aptos, FROM_TOKEN, TO_TOKEN, quote, amounts));
 
-  const swapInstruction = await axios.post(
-    `${KANA_API_URL}/v1/swapInstruction`,
+  const { instruction: ixRes } = await kanaClient.getSwapInstruction(
     {
-      quote: response.data?.data[0],
-      address: APTOS_ADDRESS,
+      quote,
+      address: sender.accountAddress.toString(),
       recipient: RECIPIENT_APTOS_ADDRESS,
     },
-    {
-      headers: {
-        "Content-Type": "application/json",
-        "X-API-KEY": "//* YOUR API KEY *//", // Your Kana API key
-      },
-    }
+    aptosSwapInstructionSchema
   );
+  const swapInstruction =
+    ixRes.swapPayload ?? (ixRes as AptosEntryFunctionPayload);
 
   // 1. Build
   console.log("\n=== 1. Building the transaction ===\n");
   const transaction = await aptos.transaction.build.simple({
     sender: sender.accountAddress,
     data: {
-      function: swapInstruction.data?.data?.function,
-      typeArguments: swapInstruction.data?.data?.type_arguments,
-      functionArguments: swapInstruction.data?.data?.arguments,
+      function: swapInstruction.function as `${string}::${string}::${string}`,
+      typeArguments: swapInstruction.type_arguments,
+      functionArguments: swapInstruction.arguments,
     },
   });
   console.log("Built the transaction!");
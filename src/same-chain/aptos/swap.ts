@@ -1,54 +1,73 @@
-import axios from "axios";
 import "dotenv/config";
 import { Account, AccountAddress, Aptos, AptosConfig, Ed25519PrivateKey, Network, PrivateKey, PrivateKeyVariants } from "@aptos-labs/ts-sdk";
-import { KANA_API_URL, NetworkId } from "../../constant";
+import { chainConfig } from "../../config";
+import { NetworkId } from "../../constant";
+import { kanaClient } from "../../kanaClient";
+import { checkQuoteLimits, ensureFreshQuote } from "../../quoteGuard";
+import { aptosSwapQuoteSchema } from "../../schemas";
+import { SwapAmountParams, describeSwapAmounts, swapAmountParams } from "../../swapAmounts";
+import { SwapSlice, runSwap } from "../../twap";
+import { SwapMode } from "../../types";
 
-const config = new AptosConfig({ network: Network.MAINNET });
+const aptosSettings = chainConfig(NetworkId.aptos, "privateKey");
+
+const config = new AptosConfig({ network: Network.MAINNET, fullnode: aptosSettings.rpcUrl });
 const aptos = new Aptos(config);
 
 // Constants
-const APTOS_PRIVATEKEY = "YOUR_APTOS_PRIVATE_KEY"
-const APTOS_ADDRESS = "YOUR_APTOS_WALLET_ADDRESS"
-
-const FROM_TOKEN_ADDRESS = "0x1::aptos_coin::AptosCoin"
-const TO_TOKEN_ADDRESS = "0x357b0b74bc833e95a115ad22604854d6b0fca151cecd94111770e5d6ffc9dc2b"
+const FROM_TOKEN = "APT";
+const TO_TOKEN = "USDt";
 
-const AMOUNT_IN = 200000000 // 2 APT
+// ExactIn spends AMOUNT_IN; ExactOut buys exactly AMOUNT_OUT, spending at most MAX_AMOUNT_IN
+const SWAP_MODE: SwapMode = "ExactIn"
+const AMOUNT_IN = "2 APT"
+const AMOUNT_OUT = "10 USDt"
+const MAX_AMOUNT_IN = "3 APT"
 
 const SLIPPAGE_PERCENTAGE = 0.5
 
+// TWAP: split AMOUNT_IN into `slices` swaps `intervalSeconds` apart, stopping if a
+// slice prices more than `maxBandPercent` worse than the first (1 slice = one swap)
+const TWAP = { slices: 1, intervalSeconds: 60, maxBandPercent: 1 }
+
 
 const sender = Account.fromPrivateKey({
-    privateKey: new Ed25519PrivateKey(PrivateKey.formatPrivateKey(APTOS_PRIVATEKEY, PrivateKeyVariants.Ed25519)), // Aptos Privatekey  
-    address:  AccountAddress.from(APTOS_ADDRESS), // Aptos Address
+    privateKey: new Ed25519PrivateKey(PrivateKey.formatPrivateKey(aptosSettings.privateKey, PrivateKeyVariants.Ed25519)), // Aptos Privatekey  
+    address: aptosSettings.address ? AccountAddress.from(aptosSettings.address) : undefined, // Aptos Address (only for rotated keys)
     legacy: true,
   });
   
-export const kanaswap = async () => {
-    const response = await axios.get(`${KANA_API_URL}/v1/swapQuote`, {
-        params: {
-            inputToken: FROM_TOKEN_ADDRESS, //APT
-            outputToken: TO_TOKEN_ADDRESS, //USDt
-            chain: NetworkId.aptos, //Aptos 
-            amountIn: AMOUNT_IN,// amonut * token decimal eg: 2*100000000
-            slippage: SLIPPAGE_PERCENTAGE, //0.5%
-            sender:  sender.accountAddress.toString() //sender address 
-
-        },
-        headers: {
-          'Content-Type': 'application/json',
-          'X-API-KEY': '//* YOUR API KEY *//',
-        },
-      });
+export const kanaswap = async (slice?: SwapSlice) => {
+    const amounts: SwapAmountParams = slice
+        ? { swapMode: "ExactIn", amountIn: slice.amountIn }
+        : await swapAmountParams(NetworkId.aptos, SWAP_MODE, {
+            amountIn: AMOUNT_IN,
+            amountOut: AMOUNT_OUT,
+            maxAmountIn: MAX_AMOUNT_IN,
+        });
+    const { quote } = await kanaClient.getBestSwapQuote({
+        inputToken: FROM_TOKEN, //APT
+        outputToken: TO_TOKEN, //USDt
+        chain: NetworkId.aptos, //Aptos 
+        ...amounts, // amounts in base units (octas for APT)
+        slippage: SLIPPAGE_PERCENTAGE, //0.5%
+        sender:  sender.accountAddress.toString() //sender address 
+      }, aptosSwapQuoteSchema);
+    console.log(await describeSwapAmounts(NetworkId.aptos, FROM_TOKEN, TO_TOKEN, quote, amounts));
+    await slice?.onQuote(quote);
+    // The instruction rides on the quote, so re-quote and check limits here
+    const fresh = await ensureFreshQuote(quote);
+    checkQuoteLimits(fresh);
+    const { instruction } = fresh;
 
     // 1. Build
     console.log("\n=== 1. Building the transaction ===\n");
     const transaction = await aptos.transaction.build.simple({
         sender: sender.accountAddress,
         data: {
-            function: response.data?.data[0].instruction?.function,
-            typeArguments: response.data?.data[0].instruction?.type_arguments,
-            functionArguments: response.data?.data[0].instruction?.arguments,        },
+            function: instruction?.function as `${string}::${string}::${string}`,
+            typeArguments: instruction?.type_arguments,
+            functionArguments: instruction?.arguments,        },
     });
     console.log("Built the transaction!")
 
@@ -72,6 +91,14 @@ export const kanaswap = async () => {
     console.log("\n=== 5. Waiting for result of transaction ===\n");
     const executedTransaction = await aptos.waitForTransaction({ transactionHash: submittedTransaction.hash });
     console.log(executedTransaction)
+    return submittedTransaction.hash
 };
 
-kanaswap()
\ No newline at end of file
+runSwap(kanaswap, {
+    chain: NetworkId.aptos,
+    swapMode: SWAP_MODE,
+    inputToken: FROM_TOKEN,
+    outputToken: TO_TOKEN,
+    amountIn: AMOUNT_IN,
+    ...TWAP,
+})
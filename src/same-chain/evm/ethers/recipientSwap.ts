@@ -1,120 +1,77 @@
-import axios from "axios";
 import "dotenv/config";
-import { KANA_API_URL, NetworkId } from "../../../constant";
-import { BigNumber, ethers } from "ethers";
+import { chainConfig } from "../../../config";
+import { ethersNetwork } from "../../../chains";
+import { NetworkId } from "../../../constant";
+import { kanaClient } from "../../../kanaClient";
+import { ethers } from "ethers";
+import { executeEvmSwap } from "../../../evm/executor";
+import { signSwapPermit } from "../../../evm/permit";
+import { ethersBackend } from "../../../evm/ethers";
+import { ensureFreshQuote } from "../../../quoteGuard";
+import { evmSwapInstructionSchema } from "../../../schemas";
+import { describeSwapAmounts, maxInput, swapAmountParams } from "../../../swapAmounts";
+import { SwapMode } from "../../../types";
 
 //Constants
-const PRIVATE_KEY = "YOUR_PRIVATE_KEY";
-const NODE_URI = "YOUR_NODE_URI";
-
-export interface TransactionIX {
-  to: string;
-  from: string;
-  value: string;
-  data: string;
-  gasPrice: string;
-  gasLimit?: string;
-  chainId: number;
-  nonce?: number;
-}
-
-export interface swapIX {
-  approveIX?: TransactionIX;
-  swapIX?: TransactionIX;
-}
-const FROM_TOKEN_ADDRESS = "0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee";
-const TO_TOKEN_ADDRESS = "0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174";
+const { privateKey: PRIVATE_KEY, rpcUrl: NODE_URI } = chainConfig(
+  NetworkId.polygon,
+  "privateKey",
+  "rpcUrl"
+);
+
+const FROM_TOKEN = "POL";
+const TO_TOKEN = "USDC.e";
 const RECIPIENT_ADDRESS = "YOUR_RECIPIENT_ADDRESS";
 
-const AMOUNT_IN = "1000000000000000000"; // 1 MATIC
+// ExactIn spends AMOUNT_IN; ExactOut buys exactly AMOUNT_OUT, spending at most MAX_AMOUNT_IN
+const SWAP_MODE: SwapMode = "ExactIn";
+const AMOUNT_IN = "1 POL";
+const AMOUNT_OUT = "0.1 USDC.e";
+const MAX_AMOUNT_IN = "1 POL";
 
 const SLIPPAGE_PERCENTAGE = 0.5;
 
-const evmExchange = ["okx"];
+// Only route through these providers; also settable per chain as chains.<chain>.includeProviders
+const PROVIDERS = { include: ["okx"] };
 
-const privateKey = PRIVATE_KEY as string;
-const rpc = NODE_URI as string;
-const provider = ethers.getDefaultProvider(rpc);
+const privateKey = PRIVATE_KEY;
+const rpc = NODE_URI;
+const provider = new ethers.providers.JsonRpcProvider(rpc, ethersNetwork(NetworkId.polygon));
 const signer = new ethers.Wallet(privateKey, provider);
 
-function _increaseGasLimit(originalGasLimit: number): number {
-  const increasePercentage = 0.1;
-  const increaseAmount = originalGasLimit * increasePercentage;
-  const increasedGasLimit = Math.ceil(originalGasLimit + increaseAmount);
-  return increasedGasLimit;
-}
-const executeEVMInstruction = async (signer: any, instruction: swapIX) => {
-  if (instruction.approveIX && instruction.swapIX) {
-    const txParams = instruction.approveIX;
-    const approveTX: TransactionIX = {
-      from: txParams.from,
-      to: txParams.to,
-      data: txParams.data,
-      chainId: txParams.chainId,
-      gasPrice: BigNumber.from(txParams.gasPrice).toHexString(),
-      value: BigNumber.from(txParams.value).toHexString(),
-    };
-
-    const gasLimit = await signer.estimateGas(approveTX);
-    const increasedGasLimit = _increaseGasLimit(gasLimit.toNumber());
-
-    approveTX.gasLimit = increasedGasLimit.toString();
-
-    const tx = await signer.sendTransaction(approveTX);
-    await tx.wait();
-  }
-
-  if (instruction.swapIX) {
-    const txParams = instruction.swapIX;
-
-    const swapTX: TransactionIX = {
-      from: txParams.from,
-      to: txParams.to,
-      data: txParams.data,
-      chainId: txParams.chainId,
-      gasPrice: BigNumber.from(txParams.gasPrice).toHexString(),
-      value: BigNumber.from(txParams.value).toHexString(),
-    };
-
-    const gasLimit = await signer.estimateGas(swapTX);
-    const increasedGasLimit = _increaseGasLimit(gasLimit.toNumber());
-    swapTX.gasLimit = increasedGasLimit.toString();
-    const tx = await signer.sendTransaction(swapTX);
-    const reciept = await tx.wait();
-
-    return reciept.transactionHash;
-  }
-};
 export const kanaswap = async () => {
-  const response = await axios.get(`${KANA_API_URL}/v1/swapQuote`, {
-    params: {
-      inputToken: FROM_TOKEN_ADDRESS, //MATIC
-      outputToken: TO_TOKEN_ADDRESS, //USDC
-      chain: NetworkId.polygon, //Polygon
-      amountIn: AMOUNT_IN, // amonut * token decimal eg: 1*1000000000000000000
-      slippage: SLIPPAGE_PERCENTAGE, //0.5%
-      evmExchange: JSON.stringify(evmExchange),
-    },
-    headers: {
-      "Content-Type": "application/json",
-      "X-API-KEY": "//* YOUR API KEY *//",
-    },
+  const amounts = await swapAmountParams(NetworkId.polygon, SWAP_MODE, {
+    amountIn: AMOUNT_IN,
+    amountOut: AMOUNT_OUT,
+    maxAmountIn: MAX_AMOUNT_IN,
+  });
+  const { quote } = await kanaClient.getBestSwapQuote({
+    inputToken: FROM_TOKEN, //MATIC
+    outputToken: TO_TOKEN, //USDC
+    chain: NetworkId.polygon, //Polygon
+    ...amounts,
+    slippage: SLIPPAGE_PERCENTAGE, //0.5%
+    providers: PROVIDERS,
   });
+  console.log(await describeSwapAmounts(NetworkId.polygon, FROM_TOKEN, TO_TOKEN, quote, amounts));
   const data = {
-    quote: response.data?.data[0],
+    quote,
     address: signer.address,
     recipient: RECIPIENT_ADDRESS
   };
 
   try {
-    const response = await axios.post(
-      `${KANA_API_URL}/v1/swapInstruction`,
-      data
-    );
-    const swapInstruction = await executeEVMInstruction(
-      signer,
-      response.data?.data
-    );
+    const backend = ethersBackend(signer);
+    // Re-quote now so the permit and approval cover what the swap will spend.
+    const fresh = await ensureFreshQuote(quote);
+    const { instruction, quote: built } =
+      await kanaClient.getSwapInstruction(
+        { ...data, quote: fresh, permit: await signSwapPermit(backend, fresh) },
+        evmSwapInstructionSchema
+      );
+    const swapInstruction = await executeEvmSwap(backend, instruction, {
+      spendAmount: maxInput(built),
+    });
     console.log("Submitted transaction hash:", swapInstruction);
     return swapInstruction;
   } catch (error) {
@@ -1,51 +1,45 @@
-import axios from "axios";
 import "dotenv/config";
-import { KANA_API_URL, NetworkId } from "../../../constant";
-import {
-  createPublicClient,
-  createWalletClient,
-  http,
-  type Address,
-  type TransactionRequest,
-} from "viem";
+import { chainConfig } from "../../../config";
+import { viemChain } from "../../../chains";
+import { NetworkId } from "../../../constant";
+import { kanaClient } from "../../../kanaClient";
+import { createPublicClient, createWalletClient, http } from "viem";
 import { privateKeyToAccount } from "viem/accounts";
-import { arbitrum } from "viem/chains";
+import { executeEvmSwap } from "../../../evm/executor";
+import { signSwapPermit } from "../../../evm/permit";
+import { viemBackend } from "../../../evm/viem";
+import { ensureFreshQuote } from "../../../quoteGuard";
+import { evmSwapInstructionSchema } from "../../../schemas";
+import { describeSwapAmounts, maxInput, swapAmountParams } from "../../../swapAmounts";
+import { SwapMode } from "../../../types";
 
 //Constants
-const PRIVATE_KEY = "YOUR_PRIVATE_KEY";
-const NODE_URI = "YOUR_NODE_URI";
-
-export interface TransactionIX {
-  to: string;
-  from: string;
-  value: string;
-  data: string;
-  gasPrice: string;
-  gasLimit?: string;
-  chainId: number;
-  nonce?: number;
-}
-
-export interface swapIX {
-  approveIX?: TransactionIX;
-  swapIX?: TransactionIX;
-}
-
-const FROM_TOKEN_ADDRESS = "0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee";
-const TO_TOKEN_ADDRESS = "0xaf88d065e77c8cc2239327c5edb3a432268e5831";
+const { privateKey: PRIVATE_KEY, rpcUrl: NODE_URI } = chainConfig(
+  NetworkId.Arbitrum,
+  "privateKey",
+  "rpcUrl"
+);
+
+const FROM_TOKEN = "ETH";
+const TO_TOKEN = "USDC";
 const RECIPIENT_ADDRESS = "0xf7cf8f28e5a99be6c184107fb769bdde81508b51";
 
-const AMOUNT_IN = "100000000000000"; // 1 ETH
+// ExactIn spends AMOUNT_IN; ExactOut buys exactly AMOUNT_OUT, spending at most MAX_AMOUNT_IN
+const SWAP_MODE: SwapMode = "ExactIn";
+const AMOUNT_IN = "0.0001 ETH";
+const AMOUNT_OUT = "0.1 USDC";
+const MAX_AMOUNT_IN = "0.0001 ETH";
 
 const SLIPPAGE_PERCENTAGE = 0.5;
 
 
+const chain = viemChain(NetworkId.Arbitrum);
 const privateKey = PRIVATE_KEY as `0x${string}`;
-const rpc = NODE_URI as string;
+const rpc = NODE_URI;
 
 // Create public client for reading blockchain data
 const publicClient = createPublicClient({
-  chain: arbitrum,
+  chain,
   transport: http(rpc),
 });
 
@@ -55,121 +49,43 @@ const account = privateKeyToAccount(privateKey);
 // Create wallet client for signing transactions
 const walletClient = createWalletClient({
   account,
-  chain: arbitrum,
+  chain,
   transport: http(rpc),
 });
 
-function _increaseGasLimit(originalGasLimit: bigint): bigint {
-  const increasePercentage = BigInt(10); // 10%
-  const increaseAmount = (originalGasLimit * increasePercentage) / BigInt(100);
-  return originalGasLimit + increaseAmount;
-}
-
-const executeEVMInstruction = async (instruction: swapIX) => {
-  if (instruction.approveIX && instruction.swapIX) {
-    const txParams = instruction.approveIX;
-
-    const approveTX: TransactionRequest = {
-      from: txParams.from as Address,
-      to: txParams.to as Address,
-      data: txParams.data as `0x${string}`,
-      gasPrice: BigInt(txParams.gasPrice),
-      value: BigInt(txParams.value),
-    };
-
-    // Estimate gas
-    const gasEstimate = await publicClient.estimateGas({
-      account: account.address,
-      to: approveTX.to!,
-      data: approveTX.data,
-      value: approveTX.value,
-    });
-
-    const increasedGasLimit = _increaseGasLimit(gasEstimate);
-
-    // Send approve transaction
-    const approveHash = await walletClient.sendTransaction({
-      to: approveTX.to!,
-      data: approveTX.data,
-      value: approveTX.value,
-      gas: increasedGasLimit,
-      gasPrice: approveTX.gasPrice,
-      chain: arbitrum,
-    });
-
-    // Wait for approval transaction
-    await publicClient.waitForTransactionReceipt({ hash: approveHash });
-  }
-
-  if (instruction.swapIX) {
-    const txParams = instruction.swapIX;
-
-    const swapTX: TransactionRequest = {
-      from: txParams.from as Address,
-      to: txParams.to as Address,
-      data: txParams.data as `0x${string}`,
-      gasPrice: BigInt(txParams.gasPrice),
-      value: BigInt(txParams.value),
-    };
-
-    // Estimate gas
-    const gasEstimate = await publicClient.estimateGas({
-      account: account.address,
-      to: swapTX.to!,
-      data: swapTX.data,
-      value: swapTX.value,
-    });
-
-    const increasedGasLimit = _increaseGasLimit(gasEstimate);
-
-    // Send swap transaction
-    const swapHash = await walletClient.sendTransaction({
-      to: swapTX.to!,
-      data: swapTX.data,
-      value: swapTX.value,
-      gas: increasedGasLimit,
-      gasPrice: swapTX.gasPrice,
-      chain: arbitrum,
-    });
-
-    // Wait for swap transaction
-    const receipt = await publicClient.waitForTransactionReceipt({
-      hash: swapHash,
-    });
-
-    return receipt.transactionHash;
-  }
-};
-
 export const kanaswap = async () => {
-  const response = await axios.get(`${KANA_API_URL}/v1/swapQuote`, {
-    params: {
-      inputToken: FROM_TOKEN_ADDRESS, //ETH
-      outputToken: TO_TOKEN_ADDRESS, //USDC
-      chain: NetworkId.Arbitrum, //Arbitrum
-      amountIn: AMOUNT_IN, // amount * token decimal eg: 1*1000000000000000000
-      slippage: SLIPPAGE_PERCENTAGE, //0.5%
-    },
-    headers: {
-      "Content-Type": "application/json",
-      "X-API-KEY": "//* YOUR API KEY *//",
-    },
+  const amounts = await swapAmountParams(NetworkId.Arbitrum, SWAP_MODE, {
+    amountIn: AMOUNT_IN,
+    amountOut: AMOUNT_OUT,
+    maxAmountIn: MAX_AMOUNT_IN,
+  });
+  const { quote } = await kanaClient.getBestSwapQuote({
+    inputToken: FROM_TOKEN, //ETH
+    outputToken: TO_TOKEN, //USDC
+    chain: NetworkId.Arbitrum, //Arbitrum
+    ...amounts,
+    slippage: SLIPPAGE_PERCENTAGE, //0.5%
   });
+  console.log(await describeSwapAmounts(NetworkId.Arbitrum, FROM_TOKEN, TO_TOKEN, quote, amounts));
 
   const data = {
-    quote: response.data?.data[0],
+    quote,
     address: account.address,
     recipient: RECIPIENT_ADDRESS
   };
 
   try {
-    const swapResponse = await axios.post(
-      `${KANA_API_URL}/v1/swapInstruction`,
-      data
-    );
-    const swapInstruction = await executeEVMInstruction(
-      swapResponse.data?.data
-    );
+    const backend = viemBackend(walletClient, publicClient);
+    // Re-quote now so the permit and approval cover what the swap will spend.
+    const fresh = await ensureFreshQuote(quote);
+    const { instruction, quote: built } =
+      await kanaClient.getSwapInstruction(
+        { ...data, quote: fresh, permit: await signSwapPermit(backend, fresh) },
+        evmSwapInstructionSchema
+      );
+    const swapInstruction = await executeEvmSwap(backend, instruction, {
+      spendAmount: maxInput(built),
+    });
     console.log("Submitted transaction hash:", swapInstruction);
     return swapInstruction;
   } catch (error) {
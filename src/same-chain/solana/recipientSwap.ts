@@ -1,4 +1,3 @@
-import axios from "axios";
 import "dotenv/config";
 import {
   Keypair,
@@ -8,17 +7,29 @@ import {
   VersionedTransactionResponse,
 } from "@solana/web3.js";
 import bs58 from "bs58";
-import { KANA_API_URL, NetworkId } from "../../constant";
+import { chainConfig } from "../../config";
+import { explorerTxUrl } from "../../chains";
+import { NetworkId } from "../../constant";
+import { kanaClient } from "../../kanaClient";
+import { solanaSwapInstructionSchema } from "../../schemas";
+import { describeSwapAmounts, swapAmountParams } from "../../swapAmounts";
+import { SwapMode } from "../../types";
 
 // Constants
-const SOLANA_PRIVATEKEY = "YOUR_SOLANA_PRIVATE_KEY";
-const FROM_TOKEN_ADDRESS = "So11111111111111111111111111111111111111112";
-const TO_TOKEN_ADDRESS = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+const FROM_TOKEN = "SOL";
+const TO_TOKEN = "USDC";
 const RECIPIENT_ADDRESS = "YOUR_RECIPIENT_ADDRESS";
-const AMOUNT_IN = 10000000; // 0.01 SOL
+// ExactIn spends AMOUNT_IN; ExactOut buys exactly AMOUNT_OUT, spending at most MAX_AMOUNT_IN
+const SWAP_MODE: SwapMode = "ExactIn";
+const AMOUNT_IN = "0.01 SOL";
+const AMOUNT_OUT = "1 USDC";
+const MAX_AMOUNT_IN = "0.01 SOL";
 const SLIPPAGE_PERCENTAGE = 0.5;
-const RPC_ENDPOINT =
-  process.env.RPC_ENDPOINT || "https://api.mainnet-beta.solana.com";
+const { privateKey: SOLANA_PRIVATEKEY, rpcUrl: RPC_ENDPOINT } = chainConfig(
+  NetworkId.solana,
+  "privateKey",
+  "rpcUrl"
+);
 
 // Setup connection and signer
 const solanaProvider = new Connection(RPC_ENDPOINT, "confirmed");
@@ -120,32 +131,30 @@ async function transactionSenderAndConfirmationWaiter(
   }
 }
 export const kanaswap = async () => {
-  const response = await axios.get(`${KANA_API_URL}/v1/swapQuote`, {
-    params: {
-      inputToken: FROM_TOKEN_ADDRESS, //SOL
-      outputToken: TO_TOKEN_ADDRESS, //USDC
-      chain: NetworkId.solana, //Solana
-      amountIn: AMOUNT_IN,
-      slippage: SLIPPAGE_PERCENTAGE, //0.5%
-      sender: solanaSigner.publicKey.toString(), //sender address
-    },
-    headers: {
-      "Content-Type": "application/json",
-      "X-API-KEY": "//* YOUR API KEY *//",
-    },
+  const amounts = await swapAmountParams(NetworkId.solana, SWAP_MODE, {
+    amountIn: AMOUNT_IN,
+    amountOut: AMOUNT_OUT,
+    maxAmountIn: MAX_AMOUNT_IN,
   });
+  const { quote } = await kanaClient.getBestSwapQuote({
+    inputToken: FROM_TOKEN, //SOL
+    outputToken: TO_TOKEN, //USDC
+    chain: NetworkId.solana, //Solana
+    ...amounts,
+    slippage: SLIPPAGE_PERCENTAGE, //0.5%
+    sender: solanaSigner.publicKey.toString(), //sender address
+  });
+  console.log(await describeSwapAmounts(NetworkId.solana, FROM_TOKEN, TO_TOKEN, quote, amounts));
   const data = {
-    quote: response.data?.data[0],
+    quote,
     address: solanaSigner.publicKey.toBase58(),
     recipient: RECIPIENT_ADDRESS
   };
   try {
-    const response = await axios.post(
-      `${KANA_API_URL}/v1/swapInstruction`,
-      data
-    );
+    const { instruction } =
+      await kanaClient.getSwapInstruction(data, solanaSwapInstructionSchema);
 
-    const swapTransactionBase64 = response.data?.data?.swapTransaction;
+    const swapTransactionBase64 = instruction?.swapTransaction;
     if (!swapTransactionBase64) {
       throw new Error("No swap transaction received from Kana");
     }
@@ -188,7 +197,7 @@ export const kanaswap = async () => {
     const signature = bs58.encode(transaction.signatures[0]);
 
     console.log("\n✨ Swap completed successfully!");
-    console.log(`🔗 View on Solscan: https://solscan.io/tx/${signature}`);
+    console.log(`🔗 View on Solscan: ${explorerTxUrl(NetworkId.solana, signature)}`);
 
     return signature;
   } catch (error) {
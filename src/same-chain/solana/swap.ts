@@ -1,4 +1,3 @@
-import axios from "axios";
 import "dotenv/config";
 import {
   Keypair,
@@ -8,16 +7,33 @@ import {
   VersionedTransactionResponse,
 } from "@solana/web3.js";
 import bs58 from "bs58";
-import { KANA_API_URL, NetworkId } from "../../constant";
+import { chainConfig } from "../../config";
+import { explorerTxUrl } from "../../chains";
+import { NetworkId } from "../../constant";
+import { kanaClient } from "../../kanaClient";
+import { solanaSwapInstructionSchema } from "../../schemas";
+import { SwapAmountParams, describeSwapAmounts, swapAmountParams } from "../../swapAmounts";
+import { SwapSlice, runSwap } from "../../twap";
+import { SwapMode } from "../../types";
 
 // Constants
-const SOLANA_PRIVATEKEY = "YOUR_SOLANA_PRIVATE_KEY";
-const FROM_TOKEN_ADDRESS = "So11111111111111111111111111111111111111112";
-const TO_TOKEN_ADDRESS = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
-const AMOUNT_IN = 10000000; // 0.01 SOL
+const FROM_TOKEN = "SOL";
+const TO_TOKEN = "USDC";
+// ExactIn spends AMOUNT_IN; ExactOut buys exactly AMOUNT_OUT, spending at most MAX_AMOUNT_IN
+const SWAP_MODE: SwapMode = "ExactIn";
+const AMOUNT_IN = "0.01 SOL";
+const AMOUNT_OUT = "1 USDC";
+const MAX_AMOUNT_IN = "0.01 SOL";
 const SLIPPAGE_PERCENTAGE = 0.5;
-const RPC_ENDPOINT =
-  process.env.RPC_ENDPOINT || "https://api.mainnet-beta.solana.com";
+
+// TWAP: split AMOUNT_IN into `slices` swaps `intervalSeconds` apart, stopping if a
+// slice prices more than `maxBandPercent` worse than the first (1 slice = one swap)
+const TWAP = { slices: 1, intervalSeconds: 60, maxBandPercent: 1 };
+const { privateKey: SOLANA_PRIVATEKEY, rpcUrl: RPC_ENDPOINT } = chainConfig(
+  NetworkId.solana,
+  "privateKey",
+  "rpcUrl"
+);
 
 // Setup connection and signer
 const solanaProvider = new Connection(RPC_ENDPOINT, "confirmed");
@@ -118,32 +134,33 @@ async function transactionSenderAndConfirmationWaiter(
     throw error;
   }
 }
-export const kanaswap = async () => {
-  const response = await axios.get(`${KANA_API_URL}/v1/swapQuote`, {
-    params: {
-      inputToken: FROM_TOKEN_ADDRESS, //SOL
-      outputToken: TO_TOKEN_ADDRESS, //USDC
-      chain: NetworkId.solana, //Solana
+export const kanaswap = async (slice?: SwapSlice) => {
+  const amounts: SwapAmountParams = slice
+    ? { swapMode: "ExactIn", amountIn: slice.amountIn }
+    : await swapAmountParams(NetworkId.solana, SWAP_MODE, {
       amountIn: AMOUNT_IN,
-      slippage: SLIPPAGE_PERCENTAGE, //0.5%
-      sender: solanaSigner.publicKey.toString(), //sender address
-    },
-    headers: {
-      "Content-Type": "application/json",
-      "X-API-KEY": "//* YOUR API KEY *//",
-    },
+      amountOut: AMOUNT_OUT,
+      maxAmountIn: MAX_AMOUNT_IN,
+    });
+  const { quote } = await kanaClient.getBestSwapQuote({
+    inputToken: FROM_TOKEN, //SOL
+    outputToken: TO_TOKEN, //USDC
+    chain: NetworkId.solana, //Solana
+    ...amounts,
+    slippage: SLIPPAGE_PERCENTAGE, //0.5%
+    sender: solanaSigner.publicKey.toString(), //sender address
   });
+  console.log(await describeSwapAmounts(NetworkId.solana, FROM_TOKEN, TO_TOKEN, quote, amounts));
+  await slice?.onQuote(quote);
   const data = {
-    quote: response.data?.data[0],
+    quote,
     address: solanaSigner.publicKey.toBase58(),
   };
   try {
-    const response = await axios.post(
-      `${KANA_API_URL}/v1/swapInstruction`,
-      data
-    );
+    const { instruction } =
+      await kanaClient.getSwapInstruction(data, solanaSwapInstructionSchema);
 
-    const swapTransactionBase64 = response.data?.data?.swapTransaction;
+    const swapTransactionBase64 = instruction?.swapTransaction;
     if (!swapTransactionBase64) {
       throw new Error("No swap transaction received from Kana");
     }
@@ -186,7 +203,7 @@ export const kanaswap = async () => {
     const signature = bs58.encode(transaction.signatures[0]);
 
     console.log("\n✨ Swap completed successfully!");
-    console.log(`🔗 View on Solscan: https://solscan.io/tx/${signature}`);
+    console.log(`🔗 View on Solscan: ${explorerTxUrl(NetworkId.solana, signature)}`);
 
     return signature;
   } catch (error) {
@@ -195,4 +212,11 @@ export const kanaswap = async () => {
   }
 };
 
-kanaswap();
+runSwap(kanaswap, {
+  chain: NetworkId.solana,
+  swapMode: SWAP_MODE,
+  inputToken: FROM_TOKEN,
+  outputToken: TO_TOKEN,
+  amountIn: AMOUNT_IN,
+  ...TWAP,
+});
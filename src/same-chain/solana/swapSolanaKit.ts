@@ -1,4 +1,3 @@
-import axios from "axios";
 import "dotenv/config";
 import bs58 from "bs58";
 
@@ -12,16 +11,29 @@ import {
 
 import { Keypair, VersionedTransaction } from "@solana/web3.js";
 
-import { KANA_API_URL, NetworkId } from "../../constant";
-
-const SOLANA_PRIVATE_KEY = process.env.SOLANA_PRIVATE_KEY!; // Your Solana private key in base58 format
-const FROM_TOKEN_ADDRESS = "So11111111111111111111111111111111111111112";
-const TO_TOKEN_ADDRESS = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
-const AMOUNT_IN = 10_000_000;
+import { chainConfig } from "../../config";
+import { explorerTxUrl } from "../../chains";
+import { NetworkId } from "../../constant";
+import { kanaClient } from "../../kanaClient";
+import { solanaSwapInstructionSchema } from "../../schemas";
+import { describeSwapAmounts, swapAmountParams } from "../../swapAmounts";
+import { SwapMode } from "../../types";
+
+const FROM_TOKEN = "SOL";
+const TO_TOKEN = "USDC";
+// ExactIn spends AMOUNT_IN; ExactOut buys exactly AMOUNT_OUT, spending at most MAX_AMOUNT_IN
+const SWAP_MODE: SwapMode = "ExactIn";
+const AMOUNT_IN = "0.01 SOL";
+const AMOUNT_OUT = "1 USDC";
+const MAX_AMOUNT_IN = "0.01 SOL";
 const SLIPPAGE_PERCENTAGE = 0.5;
 
-const RPC_ENDPOINT =
-  process.env.RPC_ENDPOINT || "https://api.mainnet-beta.solana.com";
+// Private key in base58 format
+const { privateKey: SOLANA_PRIVATE_KEY, rpcUrl: RPC_ENDPOINT } = chainConfig(
+  NetworkId.solana,
+  "privateKey",
+  "rpcUrl"
+);
 
 const rpc = createSolanaRpc(RPC_ENDPOINT);
 
@@ -103,39 +115,30 @@ async function sendAndConfirmTransaction(
 }
 
 export const kanaswap = async () => {
-  const quoteRes = await axios.get(`${KANA_API_URL}/v1/swapQuote`, {
-    params: {
-      inputToken: FROM_TOKEN_ADDRESS,
-      outputToken: TO_TOKEN_ADDRESS,
-      chain: NetworkId.solana,
-      amountIn: AMOUNT_IN,
-      slippage: SLIPPAGE_PERCENTAGE,
-      sender: signer.address,
-    },
-    headers: {
-      "Content-Type": "application/json",
-      "X-API-KEY": process.env.XYRA_API_KEY!,
-    },
+  const amounts = await swapAmountParams(NetworkId.solana, SWAP_MODE, {
+    amountIn: AMOUNT_IN,
+    amountOut: AMOUNT_OUT,
+    maxAmountIn: MAX_AMOUNT_IN,
   });
+  const { quote } = await kanaClient.getBestSwapQuote({
+    inputToken: FROM_TOKEN,
+    outputToken: TO_TOKEN,
+    chain: NetworkId.solana,
+    ...amounts,
+    slippage: SLIPPAGE_PERCENTAGE,
+    sender: signer.address,
+  });
+  console.log(await describeSwapAmounts(NetworkId.solana, FROM_TOKEN, TO_TOKEN, quote, amounts));
 
-  const quote = quoteRes.data?.data?.[0];
-  if (!quote) throw new Error("No quote returned");
-
-const instrRes = await axios.post(
-  `${KANA_API_URL}/v1/swapInstruction`,
-  {
-    quote,
-    address: signer.address,
-  },
-  {
-    headers: {
-      "Content-Type": "application/json",
-      "X-API-KEY": process.env.XYRA_API_KEY!,
+  const { instruction: instrRes } = await kanaClient.getSwapInstruction(
+    {
+      quote,
+      address: signer.address,
     },
-  }
-);
+    solanaSwapInstructionSchema
+  );
 
-  const swapTxBase64 = instrRes.data?.data?.swapTransaction;
+  const swapTxBase64 = instrRes?.swapTransaction;
   if (!swapTxBase64) throw new Error("No swap transaction received");
 
   const { value } = await rpc.getLatestBlockhash().send();
@@ -162,7 +165,7 @@ const instrRes = await axios.post(
     value.lastValidBlockHeight
   );
 
-  console.log(`🔗 https://solscan.io/tx/${signature}`);
+  console.log(`🔗 ${explorerTxUrl(NetworkId.solana, signature)}`);
   return signature;
 };
 
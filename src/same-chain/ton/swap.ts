@@ -1,4 +1,3 @@
-import axios from "axios";
 import "dotenv/config";
 import {
   Cell,
@@ -8,59 +7,47 @@ import {
   WalletContractV5R1,
 } from "@ton/ton";
 import { mnemonicToPrivateKey } from "@ton/crypto";
-import { KANA_API_URL, NetworkId } from "../../constant";
+import { chainConfig } from "../../config";
+import { parseAmount } from "../../amount";
+import { NetworkId } from "../../constant";
+import { kanaClient } from "../../kanaClient";
+import { checkQuoteLimits, ensureFreshQuote } from "../../quoteGuard";
+import { describeSelection } from "../../quoteSelection";
+import { SwapAmountParams, describeSwapAmounts, swapAmountParams } from "../../swapAmounts";
+import { SwapSlice, runSwap } from "../../twap";
+import { SwapMode, TonSwapInstruction, TonSwapQuote } from "../../types";
+import {
+  tonSwapInstructionDataSchema,
+  tonSwapInstructionSchema,
+  tonSwapQuoteSchema,
+} from "../../schemas";
 
 // Constants
-const MNEMONIC = process.env.MNEMONIC ?? "";
-const TONCENTER_API_KEY = process.env.TONCENTER_API_KEY ?? "";
-const TONCENTER_API_URL =
-  process.env.TONCENTER_API_URL ?? "https://toncenter.com/api/v2/jsonRPC";
-const XYRA_API_KEY =
-  process.env.XYRA_API_KEY ?? "//* YOUR API KEY *//";
-
-const FROM_TOKEN_ADDRESS = "EQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAM9c";
-const TO_TOKEN_ADDRESS = "EQCxE6mUtQJKFnGfaROTKOt1lZbDiiX1kCixRv7Nw2Id_sDs";
-const AMOUNT_IN = "100000000"; // 1 TON
+const {
+  mnemonic: MNEMONIC,
+  apiKey: TONCENTER_API_KEY,
+  rpcUrl: TONCENTER_API_URL,
+} = chainConfig(NetworkId.ton, "mnemonic", "apiKey", "rpcUrl");
+
+const FROM_TOKEN = "TON";
+const TO_TOKEN = "USDT";
+// ExactIn spends AMOUNT_IN; ExactOut buys exactly AMOUNT_OUT, spending at most MAX_AMOUNT_IN
+const SWAP_MODE: SwapMode = "ExactIn";
+const AMOUNT_IN = "0.1 TON";
+const AMOUNT_OUT = "0.1 USDT";
+const MAX_AMOUNT_IN = "0.1 TON";
+const MIN_AMOUNT_OUT = "0.1 USDT"; // refuse quotes that guarantee less
 const SLIPPAGE_PERCENTAGE = "0.5";
-const SWAP_MODE = "ExactIn";
-const MIN_GAS_BALANCE = BigInt("100000000"); // 0.1 TON
-
-interface TonSwapInstruction {
-  to: string;
-  value: string;
-  body: string;
-}
-
-interface TonQuote {
-  instruction?: TonSwapInstruction;
-  amountIn?: string;
-  amountOut?: string;
-  minimumOutAmount?: string;
-  provider?: string;
-  priceImpact?: number | string;
-}
 
-const headers = {
-  "Content-Type": "application/json",
-  "X-API-KEY": XYRA_API_KEY,
-};
+// TWAP: split AMOUNT_IN into `slices` swaps `intervalSeconds` apart, stopping if a
+// slice prices more than `maxBandPercent` worse than the first (1 slice = one swap)
+const TWAP = { slices: 1, intervalSeconds: 60, maxBandPercent: 1 };
+const MIN_GAS_BALANCE = BigInt("100000000"); // 0.1 TON
 
 function sleep(ms: number) {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-function assertMnemonic() {
-  if (!MNEMONIC || MNEMONIC.trim().split(/\s+/).length < 12) {
-    throw new Error("MNEMONIC is missing or invalid (need 12-24 words)");
-  }
-}
-
-function assertTonCenterApiKey() {
-  if (!TONCENTER_API_KEY) {
-    throw new Error("TONCENTER_API_KEY is missing");
-  }
-}
-
 async function waitForSeqnoIncrease(
   getSeqno: () => Promise<number>,
   currentSeqno: number,
@@ -86,38 +73,27 @@ async function waitForSeqnoIncrease(
 }
 
 async function resolveSwapInstruction(
-  quote: TonQuote,
+  quote: TonSwapQuote,
   walletAddress: string
 ): Promise<TonSwapInstruction> {
-  if (
-    quote.instruction?.to &&
-    quote.instruction.value &&
-    quote.instruction.body
-  ) {
-    return quote.instruction;
+  const fresh = await ensureFreshQuote(quote);
+  checkQuoteLimits(fresh);
+  if (tonSwapInstructionSchema.is(fresh.instruction)) {
+    return fresh.instruction;
   }
 
-  const response = await axios.post(
-    `${KANA_API_URL}/v1/swapInstruction`,
+  const { instruction: response } = await kanaClient.getSwapInstruction(
     {
-      quote,
+      quote: fresh,
       address: walletAddress,
     },
-    { headers }
+    tonSwapInstructionDataSchema
   );
 
-  const instruction = response.data?.data?.instruction ?? response.data?.data;
-  if (!instruction?.to || !instruction?.value || !instruction?.body) {
-    throw new Error("No TON swap instruction received from Kana");
-  }
-
-  return instruction;
+  return response.instruction ?? (response as TonSwapInstruction);
 }
 
-export const kanaswap = async (): Promise<string> => {
-  assertMnemonic();
-  assertTonCenterApiKey();
-
+export const kanaswap = async (slice?: SwapSlice): Promise<string> => {
   const mnemonic = MNEMONIC.trim().split(/\s+/);
   const keyPair = await mnemonicToPrivateKey(mnemonic);
   const wallet = WalletContractV5R1.create({
@@ -147,28 +123,31 @@ export const kanaswap = async (): Promise<string> => {
     );
   }
 
-  const quoteResponse = await axios.get(`${KANA_API_URL}/v1/swapQuote`, {
-    params: {
-      inputToken: FROM_TOKEN_ADDRESS,
-      outputToken: TO_TOKEN_ADDRESS,
-      chain: NetworkId.ton,
+  const amounts: SwapAmountParams = slice
+    ? { swapMode: "ExactIn", amountIn: slice.amountIn }
+    : await swapAmountParams(NetworkId.ton, SWAP_MODE, {
       amountIn: AMOUNT_IN,
-      swapMode: SWAP_MODE,
+      amountOut: AMOUNT_OUT,
+      maxAmountIn: MAX_AMOUNT_IN,
+    });
+  const selection = await kanaClient.getBestSwapQuote(
+    {
+      inputToken: FROM_TOKEN,
+      outputToken: TO_TOKEN,
+      chain: NetworkId.ton,
+      ...amounts,
+      // The floor is for the whole order; slices are held to the TWAP band instead
+      minAmountOut: slice ? undefined : (await parseAmount(NetworkId.ton, MIN_AMOUNT_OUT)).amount,
       slippage: SLIPPAGE_PERCENTAGE,
       sender: walletAddress,
     },
-    headers,
-  });
-
-  const quote = quoteResponse.data?.data?.[0] as TonQuote | undefined;
-  if (!quote) {
-    throw new Error("No swap quote received from Kana");
-  }
+    tonSwapQuoteSchema
+  );
+  const { quote } = selection;
 
-  console.log(`Provider: ${quote.provider ?? "unknown"}`);
-  console.log(`Amount in: ${quote.amountIn ?? AMOUNT_IN}`);
-  console.log(`Amount out: ${quote.amountOut ?? "unknown"}`);
-  console.log(`Minimum out: ${quote.minimumOutAmount ?? "unknown"}`);
+  console.log(describeSelection(selection));
+  console.log(await describeSwapAmounts(NetworkId.ton, FROM_TOKEN, TO_TOKEN, quote, amounts));
+  await slice?.onQuote(quote);
   console.log(`Price impact: ${quote.priceImpact ?? "unknown"}`);
 
   const instruction = await resolveSwapInstruction(quote, walletAddress);
@@ -214,7 +193,14 @@ export const kanaswap = async (): Promise<string> => {
   return confirmation;
 };
 
-kanaswap().catch((error) => {
+runSwap(kanaswap, {
+  chain: NetworkId.ton,
+  swapMode: SWAP_MODE,
+  inputToken: FROM_TOKEN,
+  outputToken: TO_TOKEN,
+  amountIn: AMOUNT_IN,
+  ...TWAP,
+}).catch((error) => {
   console.error("Error executing TON swap:", error);
   process.exit(1);
 });
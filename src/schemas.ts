@@ -0,0 +1,341 @@
+import {
+  AptosClaimInstruction,
+  AptosEntryFunctionPayload,
+  AptosSwapInstruction,
+  AptosSwapQuote,
+  AptosTransferInstruction,
+  CrossChainQuote,
+  EvmCallIX,
+  EvmClaimInstruction,
+  EvmSwapInstruction,
+  EvmTransferInstruction,
+  QuoteFee,
+  SolanaClaimInstruction,
+  SolanaSwapInstruction,
+  SolanaTransferInstruction,
+  SwapQuote,
+  SwapRoute,
+  TonSwapInstruction,
+  TonSwapInstructionData,
+  TonSwapQuote,
+  TransactionIX,
+} from "./types";
+
+/* ------------------ SCHEMA PRIMITIVES ------------------ */
+
+export class SchemaIssue extends Error {
+  constructor(
+    readonly path: string,
+    readonly expected: string,
+    readonly received: string,
+    public keys?: string[]
+  ) {
+    super(`expected "${path}" to be ${expected}, got ${received}`);
+    this.name = "SchemaIssue";
+  }
+}
+
+export interface Schema<T> {
+  readonly expected: string;
+  parse(value: unknown, path: string): T;
+  is(value: unknown): value is T;
+}
+
+function describe(value: unknown): string {
+  if (value === undefined) return "undefined";
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function define<T>(
+  expected: string,
+  check: (value: unknown, path: string) => T
+): Schema<T> {
+  return {
+    expected,
+    parse: check,
+    is(value: unknown): value is T {
+      try {
+        check(value, "");
+        return true;
+      } catch {
+        return false;
+      }
+    },
+  };
+}
+
+function primitive<T>(
+  expected: string,
+  test: (value: unknown) => boolean
+): Schema<T> {
+  return define(expected, (value, path) => {
+    if (!test(value)) throw new SchemaIssue(path, expected, describe(value));
+    return value as T;
+  });
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export const string = () =>
+  primitive<string>("a non-empty string", (v) => typeof v === "string" && v !== "");
+
+export const number = () =>
+  primitive<number>("a number", (v) => typeof v === "number" && !Number.isNaN(v));
+
+// Amounts and gas values arrive as decimal strings, hex strings or numbers.
+export const numeric = () =>
+  primitive<string>(
+    "a numeric string or number",
+    (v) =>
+      (typeof v === "number" && Number.isFinite(v)) ||
+      (typeof v === "string" && /^(0x[0-9a-fA-F]+|-?\d+(\.\d+)?)$/.test(v))
+  );
+
+export const unknown = () => primitive<unknown>("any value", () => true);
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return define(`${schema.expected} or absent`, (value, path) =>
+    value === undefined ? undefined : schema.parse(value, path)
+  );
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null | undefined> {
+  return define(`${schema.expected}, null or absent`, (value, path) =>
+    value === undefined || value === null ? value : schema.parse(value, path)
+  );
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return define(`an array of ${item.expected}`, (value, path) => {
+    if (!Array.isArray(value)) {
+      throw new SchemaIssue(path, `an array of ${item.expected}`, describe(value));
+    }
+    value.forEach((entry, index) => item.parse(entry, `${path}[${index}]`));
+    return value as T[];
+  });
+}
+
+/**
+ * Validates the declared fields and passes the object through untouched, so
+ * fields the API adds later still reach the next request (e.g. a quote that is
+ * echoed back to /v1/swapInstruction).
+ */
+export function object<T>(
+  name: string,
+  shape: Record<string, Schema<unknown>>
+): Schema<T> {
+  return define(name, (value, path) => {
+    if (!isRecord(value)) throw new SchemaIssue(path, name, describe(value));
+
+    for (const [key, field] of Object.entries(shape)) {
+      try {
+        field.parse(value[key], path ? `${path}.${key}` : key);
+      } catch (err) {
+        if (err instanceof SchemaIssue && !err.keys) err.keys = Object.keys(value);
+        throw err;
+      }
+    }
+    return value as T;
+  });
+}
+
+export function oneOf<T>(name: string, ...options: Schema<any>[]): Schema<T> {
+  return define(name, (value, path) => {
+    let closest: SchemaIssue | undefined;
+    for (const option of options) {
+      try {
+        return option.parse(value, path) as T;
+      } catch (err) {
+        if (!(err instanceof SchemaIssue)) throw err;
+        closest ??= err;
+      }
+    }
+    throw new SchemaIssue(
+      closest?.path ?? path,
+      `${name} (${options.map((o) => o.expected).join(" | ")})`,
+      closest?.received ?? describe(value),
+      closest?.keys ?? (isRecord(value) ? Object.keys(value) : undefined)
+    );
+  });
+}
+
+/* ------------------ SHARED PAYLOADS ------------------ */
+
+export const aptosEntryFunctionPayloadSchema = object<AptosEntryFunctionPayload>(
+  "an Aptos entry function payload",
+  {
+    function: string(),
+    type_arguments: array(string()),
+    arguments: array(unknown()),
+  }
+);
+
+export const transactionIXSchema = object<TransactionIX>("an EVM transaction", {
+  to: string(),
+  from: string(),
+  value: numeric(),
+  data: string(),
+  gasPrice: numeric(),
+  chainId: number(),
+});
+
+export const evmCallIXSchema = object<EvmCallIX>("an EVM call", {
+  to: string(),
+  data: string(),
+  value: optional(numeric()),
+});
+
+export const tonSwapInstructionSchema = object<TonSwapInstruction>(
+  "a TON internal message",
+  {
+    to: string(),
+    value: numeric(),
+    body: string(),
+  }
+);
+
+/* ------------------ SWAP QUOTE ------------------ */
+
+const swapQuoteFields = {
+  amountIn: optional(numeric()),
+  amountOut: optional(numeric()),
+  minimumOutAmount: optional(numeric()),
+  amountInWithSlippage: optional(numeric()),
+  maximumInAmount: optional(numeric()),
+  provider: optional(string()),
+  priceImpact: optional(oneOf("a price impact", number(), string())),
+  gasEstimate: optional(numeric()),
+};
+
+export const swapQuoteSchema = object<SwapQuote>("a swap quote", swapQuoteFields);
+
+export const aptosSwapQuoteSchema = object<AptosSwapQuote>("an Aptos swap quote", {
+  ...swapQuoteFields,
+  instruction: aptosEntryFunctionPayloadSchema,
+});
+
+export const tonSwapQuoteSchema = object<TonSwapQuote>("a TON swap quote", {
+  ...swapQuoteFields,
+  instruction: optional(tonSwapInstructionSchema),
+});
+
+/* ------------------ SWAP INSTRUCTION ------------------ */
+
+export const aptosSwapInstructionSchema = oneOf<AptosSwapInstruction>(
+  "an Aptos swap instruction",
+  aptosEntryFunctionPayloadSchema,
+  object("a wrapped Aptos swap payload", {
+    swapPayload: aptosEntryFunctionPayloadSchema,
+  })
+);
+
+export const evmSwapInstructionSchema = object<EvmSwapInstruction>(
+  "an EVM swap instruction",
+  {
+    approveIX: optional(transactionIXSchema),
+    swapIX: transactionIXSchema,
+  }
+);
+
+export const solanaSwapInstructionSchema = object<SolanaSwapInstruction>(
+  "a Solana swap instruction",
+  {
+    swapTransaction: string(),
+  }
+);
+
+export const tonSwapInstructionDataSchema = oneOf<TonSwapInstructionData>(
+  "a TON swap instruction",
+  object("a wrapped TON instruction", {
+    instruction: tonSwapInstructionSchema,
+  }),
+  tonSwapInstructionSchema
+);
+
+/* ------------------ CROSS-CHAIN QUOTE ------------------ */
+
+export const quoteFeeSchema = object<QuoteFee>("a fee", {
+  label: string(),
+  token: string(),
+  amount: numeric(),
+});
+
+export const swapRouteSchema = object<SwapRoute>("a swap route", {
+  sourceToken: string(),
+  targetToken: string(),
+  amountIn: numeric(),
+  amountOutWithSlippage: optional(numeric()),
+  fees: optional(array(quoteFeeSchema)),
+  gasEstimate: optional(numeric()),
+});
+
+export const crossChainQuoteSchema = object<CrossChainQuote>(
+  "a cross-chain quote",
+  {
+    inAmount: optional(numeric()),
+    outAmount: optional(numeric()),
+    sourceBridgeToken: optional(string()),
+    targetBridgeToken: optional(string()),
+    sourceSwapRoute: nullable(swapRouteSchema),
+    targetSwapRoute: nullable(swapRouteSchema),
+    bridgeFees: optional(array(quoteFeeSchema)),
+    gasEstimate: optional(
+      object("gas estimates", { source: optional(numeric()), target: optional(numeric()) })
+    ),
+    estimatedTime: optional(number()),
+  }
+);
+
+/* ------------------ CROSS-CHAIN TRANSFER ------------------ */
+
+export const aptosTransferInstructionSchema = oneOf<AptosTransferInstruction>(
+  "an Aptos transfer instruction",
+  object("an Aptos bridge payload", {
+    swapPayload: optional(aptosEntryFunctionPayloadSchema),
+    bridgePayload: aptosEntryFunctionPayloadSchema,
+  }),
+  object("an Aptos swap payload", {
+    swapPayload: aptosEntryFunctionPayloadSchema,
+  })
+);
+
+export const evmTransferInstructionSchema = object<EvmTransferInstruction>(
+  "an EVM transfer instruction",
+  {
+    approveIX: optional(transactionIXSchema),
+    transferIX: transactionIXSchema,
+  }
+);
+
+export const solanaTransferInstructionSchema = object<SolanaTransferInstruction>(
+  "a Solana transfer instruction",
+  {
+    transferTx: string(),
+  }
+);
+
+/* ------------------ CLAIM / REDEEM ------------------ */
+
+export const aptosClaimInstructionSchema = object<AptosClaimInstruction>(
+  "an Aptos claim instruction",
+  {
+    claimPayload: aptosEntryFunctionPayloadSchema,
+  }
+);
+
+export const evmClaimInstructionSchema = object<EvmClaimInstruction>(
+  "an EVM claim instruction",
+  {
+    claimIx: evmCallIXSchema,
+  }
+);
+
+export const solanaClaimInstructionSchema = object<SolanaClaimInstruction>(
+  "a Solana claim instruction",
+  {
+    claimIx: string(),
+  }
+);
@@ -0,0 +1,47 @@
+import { toImpact } from "./quoteSelection";
+import { CrossChainQuote, CrossChainQuoteParams, Slippage, SwapRoute } from "./types";
+
+/* ------------------ AUTO SLIPPAGE ------------------ */
+
+export const AUTO_SLIPPAGE = {
+  /** Added on top of the quoted impact to absorb price movement before execution. */
+  basePercent: 0.3,
+  impactMultiplier: 1.5,
+  minPercent: 0.1,
+  maxPercent: 3,
+  /** Used when the leg's quote does not report its impact, and for the first quote. */
+  fallbackPercent: 1,
+};
+
+/** Slippage for a leg quoted at `priceImpact` percent, within the auto bounds. */
+export function autoSlippage(priceImpact: unknown): number {
+  const impact = toImpact(priceImpact);
+  if (impact === undefined) return AUTO_SLIPPAGE.fallbackPercent;
+  const percent = AUTO_SLIPPAGE.basePercent + impact * AUTO_SLIPPAGE.impactMultiplier;
+  const bounded = Math.min(AUTO_SLIPPAGE.maxPercent, Math.max(AUTO_SLIPPAGE.minPercent, percent));
+  return Math.round(bounded * 100) / 100;
+}
+
+/* ------------------ PER LEG ------------------ */
+
+/** The tolerance for one swap leg: `setting` itself, or derived from the leg's quote when "auto". */
+export function legSlippage(setting: Slippage, route?: SwapRoute | null): number {
+  return setting === "auto" ? autoSlippage(route?.priceImpact) : setting;
+}
+
+export const isAutoSlippage = (params: Pick<CrossChainQuoteParams, "sourceSlippage" | "targetSlippage">) =>
+  params.sourceSlippage === "auto" || params.targetSlippage === "auto";
+
+/**
+ * Numeric source and target tolerances for a cross-chain quote request.
+ * "auto" legs follow `quote`'s route when given, otherwise the fallback.
+ */
+export function quotedSlippage(
+  params: Pick<CrossChainQuoteParams, "sourceSlippage" | "targetSlippage">,
+  quote?: CrossChainQuote
+): { sourceSlippage: number; targetSlippage: number } {
+  return {
+    sourceSlippage: legSlippage(params.sourceSlippage, quote?.sourceSwapRoute),
+    targetSlippage: legSlippage(params.targetSlippage, quote?.targetSwapRoute),
+  };
+}
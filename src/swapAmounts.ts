@@ -0,0 +1,103 @@
+import { AmountInput, formatAmount, parseAmount } from "./amount";
+import { NetworkId } from "./constant";
+import { MaxInputExceededError } from "./errors";
+import { toBaseUnits } from "./quoteSelection";
+import { ExactInQuoteParams, ExactOutQuoteParams, SwapMode, SwapQuote } from "./types";
+
+/* ------------------ PARAMS ------------------ */
+
+export type SwapAmountParams =
+  | Pick<ExactInQuoteParams, "swapMode" | "amountIn">
+  | Required<Pick<ExactOutQuoteParams, "swapMode" | "amountOut" | "maxAmountIn">>;
+
+export interface SwapAmounts {
+  /** ExactIn: exactly what is spent. */
+  amountIn?: AmountInput;
+  /** ExactOut: exactly what is received. */
+  amountOut?: AmountInput;
+  /** ExactOut: the most the swap may spend. */
+  maxAmountIn?: AmountInput;
+}
+
+/** The amount fields of a swap quote request, in base units, for either mode. */
+export async function swapAmountParams(
+  chain: NetworkId,
+  swapMode: SwapMode,
+  amounts: SwapAmounts
+): Promise<SwapAmountParams> {
+  if (swapMode === "ExactIn") {
+    if (amounts.amountIn === undefined) throw new Error("ExactIn swaps need amountIn");
+    return { swapMode, amountIn: (await parseAmount(chain, amounts.amountIn)).amount };
+  }
+
+  if (amounts.amountOut === undefined || amounts.maxAmountIn === undefined) {
+    throw new Error("ExactOut swaps need amountOut and maxAmountIn");
+  }
+  const amountOut = await parseAmount(chain, amounts.amountOut);
+  const maxAmountIn = await parseAmount(chain, amounts.maxAmountIn);
+  return { swapMode, amountOut: amountOut.amount, maxAmountIn: maxAmountIn.amount };
+}
+
+/* ------------------ LIMITS ------------------ */
+
+/** The least output the quote guarantees once slippage is applied. */
+export function minimumOutput(quote: SwapQuote): bigint {
+  return toBaseUnits(quote.minimumOutAmount ?? quote.amountOutWithSlippage ?? quote.amountOut);
+}
+
+/** The most input an ExactOut quote can spend once slippage is applied. */
+export function maxInput(quote: SwapQuote): bigint {
+  return toBaseUnits(quote.maximumInAmount ?? quote.amountInWithSlippage ?? quote.amountIn);
+}
+
+/** Drops quotes that could spend more than `maxAmountIn`; throws when none is left. */
+export function withinInputCap<T extends SwapQuote>(quotes: T[], maxAmountIn: string | number): T[] {
+  const cap = toBaseUnits(maxAmountIn);
+  const affordable = quotes.filter((quote) => maxInput(quote) <= cap);
+
+  if (quotes.length && !affordable.length) {
+    const cheapest = quotes.map(maxInput).reduce((a, b) => (b < a ? b : a));
+    throw new MaxInputExceededError(cap.toString(), cheapest.toString());
+  }
+  return affordable;
+}
+
+/** Input the cap leaves unspent, at the quoted price and at the slippage limit. */
+export function inputLeftover(
+  quote: SwapQuote,
+  maxAmountIn: string | number
+): { quoted: bigint; worstCase: bigint } {
+  const cap = toBaseUnits(maxAmountIn);
+  return { quoted: cap - toBaseUnits(quote.amountIn), worstCase: cap - maxInput(quote) };
+}
+
+/* ------------------ LOGGING ------------------ */
+
+/** What the swap spends and receives, and for ExactOut what the cap leaves over. */
+export async function describeSwapAmounts(
+  chain: NetworkId,
+  inputToken: string,
+  outputToken: string,
+  quote: SwapQuote,
+  amounts: SwapAmountParams
+): Promise<string> {
+  const input = async (amount: string | number | bigint | undefined) =>
+    `${(await formatAmount(chain, inputToken, amount)) ?? "unknown"} ${inputToken}`;
+  const output = async (amount: string | number | bigint | undefined) =>
+    `${(await formatAmount(chain, outputToken, amount)) ?? "unknown"} ${outputToken}`;
+
+  if (amounts.swapMode !== "ExactOut") {
+    return (
+      `Swapping ${await input(amounts.amountIn)} for ${await output(quote.amountOut)}` +
+      ` (at least ${await output(quote.minimumOutAmount ?? quote.amountOutWithSlippage)})`
+    );
+  }
+
+  const leftover = inputLeftover(quote, amounts.maxAmountIn);
+  return [
+    `Buying exactly ${await output(amounts.amountOut)}`,
+    `  input:     ${await input(quote.amountIn)} (at most ${await input(maxInput(quote))})`,
+    `  cap:       ${await input(amounts.maxAmountIn)}`,
+    `  left over: ${await input(leftover.quoted)} (at least ${await input(leftover.worstCase)})`,
+  ].join("\n");
+}
@@ -0,0 +1,240 @@
+import fs from "fs";
+import path from "path";
+import axios from "axios";
+import { ethers } from "ethers";
+import { Connection, ParsedAccountData, PublicKey } from "@solana/web3.js";
+import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+import { ethersNetwork, getChain } from "./chains";
+import { chainConfig } from "./config";
+import { NetworkId } from "./constant";
+import { AmbiguousTokenError, UnknownTokenError } from "./errors";
+import TOKEN_LIST from "./tokenList.json";
+
+/* ------------------ TYPES ------------------ */
+
+export type TokenProgram =
+  | "native"
+  | "erc20"
+  | "spl-token"
+  | "spl-token-2022"
+  | "aptos-coin"
+  | "aptos-fa"
+  | "jetton";
+
+export interface TokenInfo {
+  chain: NetworkId;
+  /** Absent for tokens that were only looked up on-chain. */
+  symbol?: string;
+  name?: string;
+  address: string;
+  decimals: number;
+  program: TokenProgram;
+}
+
+interface TokenListEntry {
+  chain: keyof typeof NetworkId;
+  symbol: string;
+  name: string;
+  address: string;
+  decimals: number;
+  program: TokenProgram;
+}
+
+/* ------------------ TOKEN LIST ------------------ */
+
+export const TOKEN_LIST_VERSION: string = TOKEN_LIST.version;
+
+const SPL_TOKEN_2022_PROGRAM = "TokenzQdBNbLqP5VEhdkAS5EVvDZJRoBEHMuxfw2FvTK3zQmt";
+
+/** The chain's native token followed by its entries in the bundled token list. */
+export function listedTokens(chain: NetworkId): TokenInfo[] {
+  const { nativeToken, name } = getChain(chain);
+  const native: TokenInfo = {
+    chain,
+    symbol: nativeToken.symbol,
+    name: `${name} native token`,
+    address: nativeToken.address,
+    decimals: nativeToken.decimals,
+    program: "native",
+  };
+
+  const listed = (TOKEN_LIST.tokens as TokenListEntry[])
+    .filter((token) => NetworkId[token.chain] === chain)
+    .map((token) => ({ ...token, chain }));
+  return [native, ...listed];
+}
+
+/**
+ * EVM and Aptos addresses are hex and compare case-insensitively; base58 and
+ * TON addresses do not, so they are kept as given.
+ */
+export function addressKey(chain: NetworkId, address: string): string {
+  const { family } = getChain(chain);
+  return family === "evm" || family === "aptos" ? address.toLowerCase() : address;
+}
+
+/** Symbols are short and never hex-prefixed; every address format is longer. */
+export function isTokenSymbol(value: string): boolean {
+  return /^[A-Za-z$][\w.$+-]{0,15}$/.test(value) && !/^0x/i.test(value);
+}
+
+export function findTokenBySymbol(chain: NetworkId, symbol: string): TokenInfo {
+  const matches = listedTokens(chain).filter(
+    (token) => token.symbol?.toLowerCase() === symbol.toLowerCase()
+  );
+
+  const { name } = getChain(chain);
+  if (!matches.length) throw new UnknownTokenError(name, symbol);
+  if (matches.length > 1) {
+    throw new AmbiguousTokenError(
+      name,
+      symbol,
+      matches.map((token) => `${token.symbol} ${token.address}`)
+    );
+  }
+  return matches[0];
+}
+
+/** Maps a symbol to its listed address; addresses are returned unchanged. */
+export function tokenAddress(chain: NetworkId, token: string): string {
+  return isTokenSymbol(token) ? findTokenBySymbol(chain, token).address : token;
+}
+
+/* ------------------ LOCAL CACHE ------------------ */
+
+// On-chain lookups are kept between runs and dropped when the list version changes.
+const TOKEN_CACHE_FILE = path.resolve(".kana-cache", "tokens.json");
+
+let cache: Record<string, TokenInfo> | undefined;
+
+function cacheKey(chain: NetworkId, address: string): string {
+  return `${chain}:${addressKey(chain, address)}`;
+}
+
+function readCache(): Record<string, TokenInfo> {
+  if (cache) return cache;
+  let tokens: Record<string, TokenInfo> = {};
+  try {
+    const file = JSON.parse(fs.readFileSync(TOKEN_CACHE_FILE, "utf8"));
+    if (file.version === TOKEN_LIST_VERSION) tokens = file.tokens ?? {};
+  } catch {}
+  return (cache = tokens);
+}
+
+function writeCache(token: TokenInfo) {
+  const tokens = readCache();
+  tokens[cacheKey(token.chain, token.address)] = token;
+  try {
+    fs.mkdirSync(path.dirname(TOKEN_CACHE_FILE), { recursive: true });
+    fs.writeFileSync(
+      TOKEN_CACHE_FILE,
+      JSON.stringify({ version: TOKEN_LIST_VERSION, tokens }, null, 2)
+    );
+  } catch (err: any) {
+    console.warn(`⚠️  Could not write ${TOKEN_CACHE_FILE}: ${err.message}`);
+  }
+}
+
+/* ------------------ ON-CHAIN LOOKUPS ------------------ */
+
+const TONCENTER_V3_API = "https://toncenter.com/api/v3";
+
+type OnChainToken = Pick<TokenInfo, "decimals" | "program">;
+
+async function evmToken(chain: NetworkId, token: string): Promise<OnChainToken> {
+  const provider = new ethers.providers.JsonRpcProvider(
+    chainConfig(chain, "rpcUrl").rpcUrl,
+    ethersNetwork(chain)
+  );
+  const erc20 = new ethers.Contract(token, ["function decimals() view returns (uint8)"], provider);
+  return { decimals: await erc20.decimals(), program: "erc20" };
+}
+
+async function splToken(chain: NetworkId, mint: string): Promise<OnChainToken> {
+  const connection = new Connection(chainConfig(chain, "rpcUrl").rpcUrl, "confirmed");
+  const { value } = await connection.getParsedAccountInfo(new PublicKey(mint));
+  const parsed = (value?.data as ParsedAccountData | undefined)?.parsed;
+
+  // Works for both the Token and Token-2022 programs.
+  if (parsed?.type !== "mint") throw new Error(`${mint} is not an SPL mint`);
+  return {
+    decimals: parsed.info.decimals,
+    program: value!.owner.toBase58() === SPL_TOKEN_2022_PROGRAM ? "spl-token-2022" : "spl-token",
+  };
+}
+
+async function aptosToken(chain: NetworkId, token: string): Promise<OnChainToken> {
+  const aptos = new Aptos(
+    new AptosConfig({ network: Network.MAINNET, fullnode: chainConfig(chain).rpcUrl })
+  );
+
+  // Legacy coins are identified by their type, fungible assets by their metadata address.
+  if (token.includes("::")) {
+    const [decimals] = await aptos.view<[number]>({
+      payload: { function: "0x1::coin::decimals", typeArguments: [token] },
+    });
+    return { decimals: Number(decimals), program: "aptos-coin" };
+  }
+  const [decimals] = await aptos.view<[number]>({
+    payload: {
+      function: "0x1::fungible_asset::decimals",
+      typeArguments: ["0x1::fungible_asset::Metadata"],
+      functionArguments: [token],
+    },
+  });
+  return { decimals: Number(decimals), program: "aptos-fa" };
+}
+
+async function jettonToken(chain: NetworkId, master: string): Promise<OnChainToken> {
+  const { apiKey } = chainConfig(chain);
+  const res = await axios.get(`${TONCENTER_V3_API}/jetton/masters`, {
+    params: { address: master, limit: 1 },
+    headers: apiKey ? { "X-API-Key": apiKey } : {},
+  });
+
+  const jetton = res.data?.jetton_masters?.[0];
+  if (!jetton) throw new Error(`${master} is not a jetton master`);
+  // TEP-64: decimals default to 9 when the metadata omits them.
+  return { decimals: Number(jetton.jetton_content?.decimals ?? 9), program: "jetton" };
+}
+
+async function lookupOnChain(chain: NetworkId, token: string): Promise<OnChainToken> {
+  const { family, name } = getChain(chain);
+  switch (family) {
+    case "evm":
+      return evmToken(chain, token);
+    case "solana":
+      return splToken(chain, token);
+    case "aptos":
+      return aptosToken(chain, token);
+    case "ton":
+      return jettonToken(chain, token);
+    default:
+      throw new Error(`Token metadata lookup is not supported on ${name}`);
+  }
+}
+
+/* ------------------ RESOLVER ------------------ */
+
+/**
+ * Resolves a symbol or an address to its metadata. Symbols come from the
+ * token list only; addresses missing from it are looked up on-chain once.
+ */
+export async function resolveToken(chain: NetworkId, token: string): Promise<TokenInfo> {
+  if (isTokenSymbol(token)) return findTokenBySymbol(chain, token);
+
+  const key = addressKey(chain, token);
+  const listed = listedTokens(chain).find((entry) => addressKey(chain, entry.address) === key);
+  if (listed) return listed;
+
+  const cached = readCache()[cacheKey(chain, token)];
+  if (cached) return cached;
+
+  const resolved: TokenInfo = { chain, address: token, ...(await lookupOnChain(chain, token)) };
+  writeCache(resolved);
+  return resolved;
+}
+
+export async function getTokenDecimals(chain: NetworkId, token: string): Promise<number> {
+  return (await resolveToken(chain, token)).decimals;
+}
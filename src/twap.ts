@@ -0,0 +1,170 @@
+import { AmountInput, formatAmount, parseAmount } from "./amount";
+import { NetworkId } from "./constant";
+import { PriceBandError } from "./errors";
+import { outputDrift } from "./quoteGuard";
+import { toBaseUnits } from "./quoteSelection";
+import { SwapMode, SwapQuote } from "./types";
+
+/* ------------------ TYPES ------------------ */
+
+/** What a sliced run hands a swap flow: the slice amount and a check to run on its quote. */
+export interface SwapSlice {
+  index: number;
+  /** ExactIn amount for this slice, in input-token base units. */
+  amountIn: string;
+  /** Must be awaited before signing; throws to stop the run. */
+  onQuote(quote: SwapQuote): Promise<void>;
+}
+
+/** A same-chain flow's `kanaswap`; swaps its configured amount when given no slice. */
+export type SwapRunner = (slice?: SwapSlice) => Promise<string | undefined>;
+
+export interface TwapSettings {
+  /** Child swaps to split the order into; 1 sends a single swap. */
+  slices: number;
+  intervalSeconds: number;
+  /** Stop once a slice prices more than this many percent worse than the first. */
+  maxBandPercent: number;
+}
+
+export interface SliceFill {
+  index: number;
+  amountIn: string;
+  /** Output the slice was quoted at. */
+  amountOut: string;
+  txHash?: string;
+}
+
+export interface TwapReport {
+  amountIn: string;
+  filledIn: string;
+  quotedOut: string;
+  fills: SliceFill[];
+  slices: number;
+  /** Why the run ended early; undefined when every slice went through. */
+  stoppedBy?: Error;
+}
+
+/** A same-chain script's order, as `runSwap` takes it. */
+export interface SlicedSwap extends TwapSettings {
+  chain: NetworkId;
+  swapMode: SwapMode;
+  inputToken: string;
+  outputToken: string;
+  amountIn: AmountInput;
+}
+
+/* ------------------ SLICING ------------------ */
+
+/** Splits a base-unit amount into `count` parts; the last one takes the remainder. */
+export function splitAmount(amount: string, count: number): string[] {
+  const total = BigInt(amount);
+  const part = total / BigInt(count);
+  return Array.from({ length: count }, (_, i) =>
+    (i === count - 1 ? total - part * BigInt(count - 1) : part).toString()
+  );
+}
+
+// Output per unit of input, scaled so that integer division keeps the precision.
+const PRICE_SCALE = BigInt(10) ** BigInt(18);
+
+function slicePrice(quote: SwapQuote): bigint {
+  const amountIn = toBaseUnits(quote.amountIn);
+  return amountIn === BigInt(0) ? BigInt(0) : (toBaseUnits(quote.amountOut) * PRICE_SCALE) / amountIn;
+}
+
+/**
+ * Runs `swap` once per slice, `intervalSeconds` apart. Each slice is quoted
+ * afresh; the run stops before signing a slice priced outside the band, or
+ * after a slice fails, and reports what was filled up to then.
+ */
+export async function runTwap(
+  amountIn: string,
+  settings: TwapSettings,
+  swap: SwapRunner
+): Promise<TwapReport> {
+  const amounts = splitAmount(amountIn, settings.slices);
+  const fills: SliceFill[] = [];
+  let referencePrice: bigint | undefined;
+  let stoppedBy: Error | undefined;
+
+  for (const [index, sliceIn] of amounts.entries()) {
+    if (index > 0) {
+      console.log(`⏳ Next slice in ${settings.intervalSeconds}s...`);
+      await new Promise((resolve) => setTimeout(resolve, settings.intervalSeconds * 1000));
+    }
+    console.log(`\n=== Slice ${index + 1}/${amounts.length} ===`);
+
+    let quoted: SwapQuote | undefined;
+    try {
+      const txHash = await swap({
+        index,
+        amountIn: sliceIn,
+        async onQuote(quote) {
+          const price = slicePrice(quote);
+          referencePrice ??= price;
+          const drift = outputDrift(referencePrice, price);
+          if (drift > settings.maxBandPercent) {
+            throw new PriceBandError(index + 1, drift, settings.maxBandPercent);
+          }
+          quoted = quote;
+        },
+      });
+      fills.push({ index, amountIn: sliceIn, amountOut: String(quoted?.amountOut ?? "0"), txHash });
+    } catch (err) {
+      stoppedBy = err instanceof Error ? err : new Error(String(err));
+      break;
+    }
+  }
+
+  const sum = (values: string[]) => values.reduce((total, v) => total + BigInt(v), BigInt(0)).toString();
+  return {
+    amountIn,
+    filledIn: sum(fills.map((fill) => fill.amountIn)),
+    quotedOut: sum(fills.map((fill) => fill.amountOut)),
+    fills,
+    slices: amounts.length,
+    stoppedBy,
+  };
+}
+
+/* ------------------ REPORTING ------------------ */
+
+export async function describeTwap(
+  chain: NetworkId,
+  inputToken: string,
+  outputToken: string,
+  report: TwapReport
+): Promise<string> {
+  const input = async (amount: string) => `${await formatAmount(chain, inputToken, amount)} ${inputToken}`;
+  const output = async (amount: string) => `${await formatAmount(chain, outputToken, amount)} ${outputToken}`;
+
+  const lines = [
+    `Filled ${report.fills.length}/${report.slices} slices: ${await input(report.filledIn)} of ${await input(report.amountIn)}` +
+      ` for ~${await output(report.quotedOut)}`,
+  ];
+  for (const fill of report.fills) {
+    lines.push(`  #${fill.index + 1}: ${await input(fill.amountIn)} → ~${await output(fill.amountOut)} (${fill.txHash ?? "no hash"})`);
+  }
+  if (report.stoppedBy) lines.push(`Stopped: ${report.stoppedBy.message}`);
+  return lines.join("\n");
+}
+
+/* ------------------ ENTRY POINT ------------------ */
+
+/**
+ * Entry point for the same-chain swap scripts: a single `swap()` when
+ * `slices` is 1, otherwise a TWAP run over `amountIn` with a fill report.
+ */
+export async function runSwap(swap: SwapRunner, order: SlicedSwap): Promise<void> {
+  if (order.slices <= 1) {
+    await swap();
+    return;
+  }
+  if (order.swapMode !== "ExactIn") throw new Error("Sliced execution needs SWAP_MODE = \"ExactIn\"");
+
+  const { amount } = await parseAmount(order.chain, order.amountIn);
+  const report = await runTwap(amount, order, swap);
+  console.log(`\n${await describeTwap(order.chain, order.inputToken, order.outputToken, report)}`);
+  if (report.stoppedBy) process.exitCode = 1;
+}
@@ -0,0 +1,307 @@
+import { BridgeId, NetworkId } from "./constant";
+import { ProviderPolicy } from "./providers";
+
+/* ------------------ SHARED PAYLOADS ------------------ */
+
+export interface AptosEntryFunctionPayload {
+  function: string;
+  type_arguments: string[];
+  arguments: any[];
+}
+
+export interface TransactionIX {
+  to: string;
+  from: string;
+  value: string;
+  data: string;
+  gasPrice: string;
+  gasLimit?: string;
+  chainId: number;
+  nonce?: number;
+}
+
+export interface EvmCallIX {
+  to: string;
+  data: string;
+  value?: string;
+}
+
+export interface TonSwapInstruction {
+  to: string;
+  value: string;
+  body: string;
+}
+
+/* ------------------ SWAP QUOTE ------------------ */
+
+export type SwapMode = "ExactIn" | "ExactOut";
+
+/** Slippage tolerance in percent, or "auto" where a flow supports it. */
+export type Slippage = number | "auto";
+
+interface SwapQuoteBaseParams {
+  /** Token address, or a symbol from the token list (see tokens.ts). */
+  inputToken: string;
+  outputToken: string;
+  chain: NetworkId;
+  slippage?: number | string;
+  sender?: string;
+  /** Overrides the chain's `includeProviders` / `excludeProviders` for this quote. */
+  providers?: ProviderPolicy;
+  /** EVM aggregators to ask; defaults to `providers.include` on EVM chains. */
+  evmExchange?: string[];
+  /** Refuse to sign when the quote guarantees less output than this; checked client-side. */
+  minAmountOut?: string | number;
+}
+
+export interface ExactInQuoteParams extends SwapQuoteBaseParams {
+  swapMode?: "ExactIn";
+  amountIn: string | number;
+}
+
+export interface ExactOutQuoteParams extends SwapQuoteBaseParams {
+  swapMode: "ExactOut";
+  amountOut: string | number;
+  /** Routes that could spend more input than this are dropped; checked client-side. */
+  maxAmountIn?: string | number;
+}
+
+export type SwapQuoteParams = ExactInQuoteParams | ExactOutQuoteParams;
+
+export interface SwapQuote {
+  sourceToken?: string;
+  targetToken?: string;
+  chainId?: number;
+  amountIn?: string;
+  amountOut?: string;
+  amountOutWithSlippage?: string;
+  minimumOutAmount?: string;
+  /** ExactOut quotes: input spent at the slippage limit. */
+  amountInWithSlippage?: string;
+  maximumInAmount?: string;
+  provider?: string;
+  priceImpact?: number | string;
+  /** Gas for the swap transaction, in the chain's native base units. */
+  gasEstimate?: string;
+  instruction?: AptosEntryFunctionPayload | TonSwapInstruction;
+  [key: string]: unknown;
+}
+
+export interface AptosSwapQuote extends SwapQuote {
+  instruction: AptosEntryFunctionPayload;
+}
+
+export interface TonSwapQuote extends SwapQuote {
+  instruction?: TonSwapInstruction;
+}
+
+/* ------------------ SWAP INSTRUCTION ------------------ */
+
+/**
+ * An allowance signed off-chain (see evm/permit.ts). The router redeems it in
+ * the swap transaction, so the instruction comes without an `approveIX`.
+ */
+export interface SignedPermit {
+  /** EIP-2612 `permit` on the token itself, or Uniswap's Permit2 contract. */
+  kind: "eip2612" | "permit2";
+  token: string;
+  owner: string;
+  spender: string;
+  /** In token base units. */
+  amount: string;
+  nonce: string;
+  /** Unix seconds. */
+  deadline: number;
+  signature: string;
+}
+
+export interface SwapInstructionParams {
+  quote: SwapQuote;
+  address: string;
+  recipient?: string;
+  /**
+   * EVM only; replaces the approval transaction. Sent as `permit` in the
+   * request body, which the published API does not list, and must cover
+   * `maxInput` of the quote the instruction is built from.
+   */
+  permit?: SignedPermit;
+}
+
+/**
+ * An instruction with the quote it was built from. A stale quote is re-quoted
+ * first, so this may not be the quote passed in; claims, target swaps and
+ * approvals that follow must use this one.
+ */
+export interface BuiltInstruction<T, Q> {
+  instruction: T;
+  quote: Q;
+}
+
+export interface AptosSwapInstruction extends Partial<AptosEntryFunctionPayload> {
+  swapPayload?: AptosEntryFunctionPayload;
+}
+
+export interface EvmSwapInstruction {
+  approveIX?: TransactionIX;
+  swapIX?: TransactionIX;
+}
+
+export interface SolanaSwapInstruction {
+  swapTransaction: string;
+}
+
+export interface TonSwapInstructionData extends Partial<TonSwapInstruction> {
+  instruction?: TonSwapInstruction;
+}
+
+export type SwapInstruction =
+  | AptosSwapInstruction
+  | EvmSwapInstruction
+  | SolanaSwapInstruction
+  | TonSwapInstructionData;
+
+/* ------------------ CROSS-CHAIN QUOTE ------------------ */
+
+export interface CrossChainQuoteParams {
+  /** Token address, or a symbol from the token list (see tokens.ts). */
+  sourceToken: string;
+  targetToken: string;
+  sourceChain: NetworkId;
+  targetChain: NetworkId;
+  amountIn: string;
+  /** Percent, or "auto" to derive it from the leg's quoted price impact (see slippage.ts). */
+  sourceSlippage: Slippage;
+  targetSlippage: Slippage;
+  /** Override the chains' provider settings for the source and target swaps. */
+  sourceProviders?: ProviderPolicy;
+  targetProviders?: ProviderPolicy;
+  /** Refuse to sign when the quote guarantees less output than this; checked client-side. */
+  minAmountOut?: string | number;
+}
+
+export interface QuoteFee {
+  /** What the fee pays for, e.g. "bridge" or "protocol". */
+  label: string;
+  token: string;
+  /** In `token` base units. */
+  amount: string;
+}
+
+/** A swap on one side of the bridge; echoed back to /v1/swapInstruction as is. */
+export interface SwapRoute {
+  chainId?: number;
+  sourceToken: string;
+  targetToken: string;
+  provider?: string;
+  amountIn: string;
+  amountOut?: string;
+  amountOutWithSlippage?: string;
+  priceImpact?: number | string;
+  fees?: QuoteFee[];
+  /** Gas for the swap transaction, in the chain's native base units. */
+  gasEstimate?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * A route from `sourceToken` on `sourceChain` to `targetToken` on
+ * `targetChain`: an optional source swap into `sourceBridgeToken`, the bridge
+ * transfer, and an optional target swap out of `targetBridgeToken`. Amounts
+ * are base-unit strings. See crossChainQuote.ts for the per-leg breakdown.
+ */
+export interface CrossChainQuote {
+  sourceToken?: string;
+  targetToken?: string;
+  sourceChain?: NetworkId;
+  targetChain?: NetworkId;
+  inAmount?: string;
+  outAmount?: string;
+  amountOutWithSlippage?: string;
+  sourceBridgeToken?: string;
+  targetBridgeToken?: string;
+  sourceSwapRoute?: SwapRoute | null;
+  targetSwapRoute?: SwapRoute | null;
+  bridge?: string;
+  bridgeId?: BridgeId;
+  provider?: string;
+  priceImpact?: number | string;
+  /** Charged by the bridge leg. */
+  bridgeFees?: QuoteFee[];
+  /** Gas on each chain, in its native base units. */
+  gasEstimate?: { source?: string; target?: string };
+  /** Seconds from the source transaction to funds on the target chain. */
+  estimatedTime?: number;
+}
+
+/* ------------------ CROSS-CHAIN TRANSFER ------------------ */
+
+export interface CrossChainTransferParams {
+  quote: CrossChainQuote;
+  sourceAddress: string;
+  targetAddress: string;
+}
+
+export interface AptosTransferInstruction {
+  swapPayload?: AptosEntryFunctionPayload;
+  bridgePayload?: AptosEntryFunctionPayload;
+}
+
+export interface EvmTransferInstruction {
+  approveIX?: TransactionIX;
+  transferIX: TransactionIX;
+}
+
+export interface SolanaTransferInstruction {
+  transferTx: string;
+}
+
+export type CrossChainTransferInstruction =
+  | AptosTransferInstruction
+  | EvmTransferInstruction
+  | SolanaTransferInstruction;
+
+/* ------------------ CLAIM / REDEEM ------------------ */
+
+export interface ClaimParams {
+  quote: CrossChainQuote;
+  targetAddress: string;
+  messageBytes: string;
+  attestationSignature: string;
+}
+
+export interface AptosClaimInstruction {
+  claimPayload: AptosEntryFunctionPayload;
+}
+
+export interface EvmClaimInstruction {
+  claimIx: EvmCallIX;
+}
+
+export interface SolanaClaimInstruction {
+  claimIx: string;
+}
+
+export type ClaimInstruction =
+  | AptosClaimInstruction
+  | EvmClaimInstruction
+  | SolanaClaimInstruction;
+
+export interface RedeemParams {
+  sourceChainID: NetworkId;
+  targetChainID: NetworkId;
+  bridgeID: BridgeId;
+  targetAddress: string;
+  messageBytes: string;
+  attestationSignature: string;
+}
+
+// /v1/redeem answers with the same per-chain shapes as /v1/claim.
+export type RedeemInstruction = ClaimInstruction;
+
+/* ------------------ RESPONSE ENVELOPE ------------------ */
+
+export interface KanaResponse<T> {
+  success?: boolean;
+  message?: string;
+  data: T;
+}